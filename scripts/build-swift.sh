@@ -28,4 +28,14 @@ echo "  Then send JSON commands via stdin:"
 echo '    {"action": "pick"}                        - Show native window picker'
 echo '    {"action": "scan"}                        - Capture and OCR (shows picker if needed)'
 echo '    {"action": "scan", "saveTo": "/tmp/x.png"} - Also save the captured image'
+echo '    {"action": "scan", "preprocess": {"scale": 2, "grayscale": true, "outlineWidth": 0,'
+echo '      "threshold": 0.5, "invert": false}, "previewTo": "/tmp/p.png"}'
+echo '                                              - Filter the capture first and save what was recognized'
+echo '    {"action": "scan", "region": {"x": 0, "y": 0, "width": 1, "height": 0.3}}'
+echo '                                              - Only recognize the bottom 30% of the window'
+echo '    {"action": "scanImage", "path": "/tmp/page.png"} - OCR an image file instead of a window'
+echo '    {"action": "windowState"}                 - Bounds, visibility, title and focus of the picked window'
+echo '    {"action": "cancel", "target": "7"}       - Abort the request with id 7 (or all without target)'
 echo '    {"action": "quit"}                        - Exit the CLI'
+echo ''
+echo '  Commands may carry an "id" which is echoed back in every response to them.'
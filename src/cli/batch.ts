@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createEngine } from '../main/engine-factory';
+import { EXPORT_FORMATS, ExportFormat, exportOCRData } from '../main/export';
+import { withLayout } from '../main/layout';
+import { PreprocessOptions, parsePreprocess } from '../main/preprocess';
+import { DEFAULT_SETTINGS, Settings } from '../main/settings';
+
+// Runs OCR over every image in a folder and writes one result file per image:
+//
+//   npm run batch -- <folder> [--out <dir>] [--format json|text|hocr|alto]
+//                             [--engine auto|vision|tesseract|manga-ocr] [--languages ja,en]
+//                             [--preprocess scale=2,grayscale,outline=1,threshold=0.5,invert]
+//
+// Results go next to the images unless --out is given. Exits with 1 if any image failed.
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg']);
+const ENGINES: Settings['engine'][] = ['auto', 'vision', 'tesseract', 'manga-ocr'];
+
+interface BatchOptions {
+  folder: string;
+  out: string;
+  format: ExportFormat;
+  engine: Settings['engine'];
+  languages: string[];
+  preprocess?: PreprocessOptions;
+}
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: batch <folder> [--out <dir>] [--format json|text|hocr|alto] ' +
+    '[--engine auto|vision|tesseract|manga-ocr] [--languages ja,en] ' +
+    '[--preprocess scale=2,grayscale,outline=1,threshold=0.5,invert]');
+  process.exit(2);
+}
+
+function parseArgs(args: string[]): BatchOptions {
+  let folder: string | null = null;
+  let out: string | null = null;
+  let format: ExportFormat = 'json';
+  let engine = DEFAULT_SETTINGS.engine;
+  let languages = DEFAULT_SETTINGS.recognition.languages;
+  let preprocess: PreprocessOptions | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      if (folder !== null) {
+        usage(`Unexpected argument: ${arg}`);
+      }
+      folder = arg;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      usage(`Missing value for ${arg}`);
+    }
+    switch (arg) {
+      case '--out':
+        out = value;
+        break;
+      case '--format':
+        if (!Object.hasOwn(EXPORT_FORMATS, value)) {
+          usage(`Unknown format: ${value}`);
+        }
+        format = value as ExportFormat;
+        break;
+      case '--engine':
+        if (!ENGINES.includes(value as Settings['engine'])) {
+          usage(`Unknown engine: ${value}`);
+        }
+        engine = value as Settings['engine'];
+        break;
+      case '--languages':
+        languages = value.split(',').map((language) => language.trim()).filter(Boolean);
+        break;
+      case '--preprocess':
+        try {
+          preprocess = parsePreprocess(value);
+        } catch (err) {
+          usage(err instanceof Error ? err.message : String(err));
+        }
+        break;
+      default:
+        usage(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (folder === null) {
+    usage('No folder given');
+  }
+  return { folder, out: out ?? folder, format, engine, languages, preprocess };
+}
+
+// Result files are named after their image; images sharing a name, like a.png and a.jpg, keep
+// their extension in it so that neither result overwrites the other
+function outputNames(images: string[], extension: string): string[] {
+  const stems = images.map((name) => path.parse(name).name.toLowerCase());
+  return images.map((name, i) => {
+    const shared = stems.indexOf(stems[i]) !== stems.lastIndexOf(stems[i]);
+    return `${shared ? name : path.parse(name).name}.${extension}`;
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const images = fs.readdirSync(options.folder)
+    .filter((name) => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (images.length === 0) {
+    console.error(`No PNG or JPEG images in ${options.folder}`);
+    process.exit(1);
+  }
+  fs.mkdirSync(options.out, { recursive: true });
+  const outputs = outputNames(images, EXPORT_FORMATS[options.format].extension);
+
+  const engine = createEngine(options.engine);
+  engine.setTimeouts(DEFAULT_SETTINGS.timeouts);
+  let failed = 0;
+  try {
+    console.log(`Starting OCR engine (${engine.name})...`);
+    await engine.start();
+
+    for (const [index, name] of images.entries()) {
+      const progress = `[${index + 1}/${images.length}] ${name}`;
+      try {
+        const data = withLayout(await engine.scanImage(path.join(options.folder, name), {
+          languages: options.languages,
+          preprocess: options.preprocess
+        }));
+        const output = path.join(options.out, outputs[index]);
+        const source = { appName: null, windowTitle: name, timestamp: Date.now() };
+        fs.writeFileSync(output, exportOCRData(data, options.format, source), 'utf8');
+        console.log(`${progress}: ${data.observations.length} boxes -> ${output}`);
+      } catch (err) {
+        failed++;
+        console.error(`${progress}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  } finally {
+    engine.stop();
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${images.length} images failed`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+export interface AnkiSettings {
+  // Off until turned on; while it is on, scans keep their capture for the card's picture
+  enabled: boolean;
+  // AnkiConnect, or anything speaking its protocol
+  url: string;
+  apiKey: string;
+  deck: string;
+  noteType: string;
+  tags: string[];
+  // Note field each part of the card goes to; parts mapped to the same field are joined, and an
+  // empty name leaves the part out
+  fields: {
+    sentence: string;
+    picture: string;
+    source: string;
+  };
+}
+
+// A line or block picked for a card
+export interface MinedSentence {
+  sentence: string;
+  // PNG of the boxes cut from the capture; null when the scan's capture is not in the cache
+  picture: Buffer | null;
+  appName: string | null;
+  windowTitle: string | null;
+  timestamp: number;
+}
+
+// AnkiConnect's addNote note
+export interface AnkiNote {
+  deckName: string;
+  modelName: string;
+  fields: Record<string, string>;
+  tags: string[];
+  options: { allowDuplicate: boolean };
+  picture?: { filename: string; data: string; fields: string[] }[];
+}
+
+const ANKI_CONNECT_VERSION = 6;
+const ANKI_TIMEOUT_MS = 10000;
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+// Field contents are HTML in Anki
+function fieldText(text: string): string {
+  return escapeHTML(text).replace(/\n/g, '<br>');
+}
+
+export function buildNote(settings: AnkiSettings, mined: MinedSentence): AnkiNote {
+  const fields: Record<string, string> = {};
+  const add = (field: string, html: string) => {
+    if (field) {
+      fields[field] = fields[field] ? `${fields[field]}<br>${html}` : html;
+    }
+  };
+  add(settings.fields.sentence, fieldText(mined.sentence));
+  const source = [mined.appName, mined.windowTitle].filter(Boolean).join(' — ');
+  if (source) {
+    add(settings.fields.source, fieldText(source));
+  }
+
+  const note: AnkiNote = {
+    deckName: settings.deck,
+    modelName: settings.noteType,
+    fields,
+    tags: settings.tags,
+    options: { allowDuplicate: false }
+  };
+  if (mined.picture && settings.fields.picture) {
+    // AnkiConnect appends the image to the field, which has to be in the note
+    fields[settings.fields.picture] ??= '';
+    note.picture = [{
+      filename: `ocr-mined-${mined.timestamp}.png`,
+      data: mined.picture.toString('base64'),
+      fields: [settings.fields.picture]
+    }];
+  }
+  return note;
+}
+
+// Client for AnkiConnect's HTTP API
+export class AnkiConnect {
+  private url: string;
+  private apiKey: string;
+
+  constructor(url: string, apiKey: string) {
+    this.url = url;
+    this.apiKey = apiKey;
+  }
+
+  async invoke<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, version: ANKI_CONNECT_VERSION, params, ...(this.apiKey ? { key: this.apiKey } : {}) }),
+        signal: AbortSignal.timeout(ANKI_TIMEOUT_MS)
+      });
+    } catch {
+      throw new Error(`AnkiConnect is not reachable at ${this.url}; is Anki running with the AnkiConnect add-on?`);
+    }
+    const body = await response.json().catch(() => null) as { result?: T; error?: unknown } | null;
+    if (!body || !('result' in body)) {
+      throw new Error(`AnkiConnect at ${this.url} sent an unexpected reply (HTTP ${response.status})`);
+    }
+    if (body.error) {
+      throw new Error(`Anki: ${body.error}`);
+    }
+    return body.result as T;
+  }
+
+  addNote(note: AnkiNote): Promise<number> {
+    return this.invoke<number>('addNote', { note });
+  }
+}
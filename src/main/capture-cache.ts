@@ -0,0 +1,154 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Rect, normalizedToImage } from './coordinates';
+import { OCRData } from './ocr-engine';
+
+export interface CaptureSettings {
+  // Keep the screenshot behind every scan; Anki mining keeps them either way
+  keep: boolean;
+  maxSizeMB: number;
+  maxAgeDays: number;
+}
+
+export interface CaptureLimits {
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+interface CachedCapture {
+  id: string;
+  size: number;
+  createdMs: number;
+}
+
+// Context kept around cropped boxes, in capture pixels
+const CROP_MARGIN = 8;
+const CAPTURE_ID = /^[0-9]+-[0-9a-f]+$/;
+
+export function captureLimits(settings: CaptureSettings): CaptureLimits {
+  return { maxBytes: settings.maxSizeMB * 1024 * 1024, maxAgeMs: settings.maxAgeDays * 24 * 60 * 60 * 1000 };
+}
+
+// Pixel rect of the capture (top-left origin) around the quadrilaterals of the boxes, with some
+// margin and never outside the image; null when none of the indices is a box of the scan
+export function cropArea(data: OCRData, indices: number[], imageWidth: number, imageHeight: number): Rect | null {
+  const corners = indices
+    .map((i) => data.observations[i])
+    .filter((obs) => obs !== undefined)
+    .flatMap((obs) => [obs.topLeft, obs.topRight, obs.bottomRight, obs.bottomLeft]);
+  if (corners.length === 0) {
+    return null;
+  }
+  const xs = corners.map((point) => point.x);
+  const ys = corners.map((point) => point.y);
+  const pixels = normalizedToImage({
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys)
+  }, imageWidth, imageHeight);
+  // Rounded rather than floored and ceiled; the margin covers the half pixel
+  const left = Math.max(0, Math.round(pixels.x - CROP_MARGIN));
+  const top = Math.max(0, Math.round(pixels.y - CROP_MARGIN));
+  const right = Math.min(imageWidth, Math.round(pixels.x + pixels.width + CROP_MARGIN));
+  const bottom = Math.min(imageHeight, Math.round(pixels.y + pixels.height + CROP_MARGIN));
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Screenshots scans were recognized from, one PNG each in a directory of their own. Scans refer to
+// theirs by id (OCRData.capture). Captures past the age limit are dropped, then the oldest ones
+// until the cache fits its size limit.
+export class CaptureCache {
+  private dir: string;
+  private limits: CaptureLimits;
+  // Oldest first
+  private captures: CachedCapture[];
+
+  constructor(dir: string, limits: CaptureLimits) {
+    this.dir = dir;
+    this.limits = limits;
+    fs.mkdirSync(dir, { recursive: true });
+    this.captures = this.load();
+    this.prune();
+  }
+
+  private load(): CachedCapture[] {
+    const captures: CachedCapture[] = [];
+    for (const name of fs.readdirSync(this.dir)) {
+      const id = path.basename(name, '.png');
+      if (!name.endsWith('.png') || !CAPTURE_ID.test(id)) {
+        continue;
+      }
+      const { size, mtimeMs } = fs.statSync(path.join(this.dir, name));
+      captures.push({ id, size, createdMs: mtimeMs });
+    }
+    return captures.sort((a, b) => a.createdMs - b.createdMs);
+  }
+
+  private filePath(id: string): string {
+    // Ids come from stored scans, never let them escape the cache directory
+    return path.join(this.dir, `${path.basename(id)}.png`);
+  }
+
+  setLimits(limits: CaptureLimits): void {
+    this.limits = limits;
+    this.prune();
+  }
+
+  // A new id and the file to write the capture to; it only counts once added
+  reserve(): { id: string; path: string } {
+    const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    return { id, path: this.filePath(id) };
+  }
+
+  // Takes in a reserved capture once it was written; false when there is no file
+  add(id: string): boolean {
+    let size: number;
+    try {
+      size = fs.statSync(this.filePath(id)).size;
+    } catch {
+      return false;
+    }
+    this.captures.push({ id, size, createdMs: Date.now() });
+    this.prune();
+    return this.has(id);
+  }
+
+  // Drops a reserved capture that is not needed, e.g. after a failed scan
+  discard(id: string): void {
+    this.captures = this.captures.filter((capture) => capture.id !== id);
+    fs.rmSync(this.filePath(id), { force: true });
+  }
+
+  has(id: string): boolean {
+    return this.captures.some((capture) => capture.id === id);
+  }
+
+  // File of a capture still in the cache
+  path(id: string): string | null {
+    return this.has(id) ? this.filePath(id) : null;
+  }
+
+  totalBytes(): number {
+    return this.captures.reduce((sum, capture) => sum + capture.size, 0);
+  }
+
+  prune(now: number = Date.now()): void {
+    const expired = this.captures.filter((capture) => now - capture.createdMs > this.limits.maxAgeMs);
+    const kept = this.captures.filter((capture) => !expired.includes(capture));
+    let total = kept.reduce((sum, capture) => sum + capture.size, 0);
+    while (kept.length > 0 && total > this.limits.maxBytes) {
+      const oldest = kept.shift()!;
+      total -= oldest.size;
+      expired.push(oldest);
+    }
+    for (const capture of expired) {
+      fs.rmSync(this.filePath(capture.id), { force: true });
+    }
+    this.captures = kept;
+  }
+}
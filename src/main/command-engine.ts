@@ -0,0 +1,578 @@
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_TIMEOUTS,
+  EngineCapabilities,
+  EngineTimeouts,
+  OCRData,
+  OCREngine,
+  ScanOptions,
+  ScanRegion,
+  TextObservation,
+  WindowBounds,
+  WindowSelectedData,
+  WindowState,
+  observationFromPixelRect,
+  observationFromRegion
+} from './ocr-engine';
+import { imageToNormalized, normalizedToImage } from './coordinates';
+import { ImageSize, readImageSizeFromFile, withImageFile } from './image-size';
+import { imageMagickArgs, isPreprocessing } from './preprocess';
+import { joinText } from './layout';
+
+export interface RecognizerConfig {
+  name: string;
+  // Executable to run, looked up on PATH
+  command: string;
+  // '{image}' is replaced by the image path, '{languages}' by the mapped language list
+  args: string[];
+  // 'tesseract-tsv': Tesseract TSV output with per-word boxes
+  // 'text': plain text for the whole image (e.g. manga-ocr)
+  format: 'tesseract-tsv' | 'text';
+  // Maps app language codes (as passed to Vision) to recognizer codes
+  languageMap?: Record<string, string>;
+  languageSeparator?: string;
+  // Run `command args` once and keep it running instead of once per image: it prints
+  // {"ready": true} when loaded, then reads one image path per line on stdin and answers each with
+  // a JSON line, {"text": ...} or {"error": ...}. Only for the 'text' format.
+  worker?: boolean;
+}
+
+export const TESSERACT_RECOGNIZER: RecognizerConfig = {
+  name: 'tesseract',
+  command: 'tesseract',
+  args: ['{image}', 'stdout', '-l', '{languages}', 'tsv'],
+  format: 'tesseract-tsv',
+  languageMap: {
+    ja: 'jpn',
+    en: 'eng',
+    'zh-Hans': 'chi_sim',
+    'zh-Hant': 'chi_tra',
+    ko: 'kor'
+  },
+  languageSeparator: '+'
+};
+
+// Loading the model takes seconds, so one worker serves every scan
+export const MANGA_OCR_RECOGNIZER: RecognizerConfig = {
+  name: 'manga-ocr',
+  command: 'python3',
+  args: ['-c', [
+    'import json, sys',
+    'from manga_ocr import MangaOcr',
+    'ocr = MangaOcr()',
+    'print(json.dumps({"ready": True}), flush=True)',
+    'for line in sys.stdin:',
+    '    try:',
+    '        reply = {"text": ocr(line.rstrip("\\n"))}',
+    '    except Exception as err:',
+    '        reply = {"error": str(err)}',
+    '    print(json.dumps(reply), flush=True)'
+  ].join('\n')],
+  format: 'text',
+  worker: true
+};
+
+const DEFAULT_LANGUAGES = ['ja', 'en'];
+
+const cancelledChildren = new WeakSet<ChildProcess>();
+
+// Running children are tracked so that cancel() can kill them
+function run(command: string, args: string[], timeout: number, running?: Set<ChildProcess>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, { timeout, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      running?.delete(child);
+      if (err) {
+        if (cancelledChildren.has(child)) {
+          reject(new Error(`${command} cancelled`));
+        } else if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new Error(`${command} is not installed or not on PATH`));
+        } else {
+          reject(new Error(`${command} failed: ${stderr.toString().trim() || err.message}`));
+        }
+        return;
+      }
+      resolve(stdout.toString());
+    });
+    running?.add(child);
+  });
+}
+
+interface WorkerReply {
+  ready?: boolean;
+  text?: string;
+  error?: string;
+}
+
+interface WorkerRequest {
+  timer: NodeJS.Timeout;
+  resolve: (text: string) => void;
+  reject: (err: Error) => void;
+}
+
+// A recognizer process kept running between scans (RecognizerConfig.worker). It is started on
+// the first request, or by start(), and again after it exits or is killed.
+export class RecognizerWorker {
+  private command: string;
+  private args: string[];
+  private child: ChildProcess | null = null;
+  private starting: Promise<void> | null = null;
+  // Answers come back in the order the paths were written
+  private pending: WorkerRequest[] = [];
+
+  constructor(command: string, args: string[]) {
+    this.command = command;
+    this.args = args;
+  }
+
+  // Resolves once the worker reported it is loaded; a worker that cannot load fails with its error
+  start(timeoutMs: number): Promise<void> {
+    if (!this.starting) {
+      const starting: Promise<void> = this.spawnWorker(timeoutMs).catch((err) => {
+        if (this.starting === starting) {
+          this.starting = null;
+        }
+        throw err;
+      });
+      this.starting = starting;
+    }
+    return this.starting;
+  }
+
+  async recognize(imagePath: string, timeoutMs: number): Promise<string> {
+    await this.start(timeoutMs);
+    const child = this.child;
+    if (!child) {
+      throw new Error(`${this.command} cancelled`);
+    }
+    return new Promise((resolve, reject) => {
+      // The model is loaded, so a request this slow means the worker is stuck
+      const timer = setTimeout(() => this.kill(new Error(`${this.command} timed out`)), timeoutMs);
+      this.pending.push({ timer, resolve, reject });
+      child.stdin?.write(imagePath + '\n');
+    });
+  }
+
+  isBusy(): boolean {
+    return this.pending.length > 0;
+  }
+
+  // Stops the worker and fails the requests it had; the next request starts it again
+  kill(reason: Error): void {
+    const child = this.child;
+    this.child = null;
+    this.starting = null;
+    child?.kill();
+    for (const request of this.pending.splice(0)) {
+      clearTimeout(request.timer);
+      request.reject(reason);
+    }
+  }
+
+  private spawnWorker(timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      this.child = child;
+      let buffer = '';
+      let stderr = '';
+
+      const fail = (err: Error) => {
+        clearTimeout(timer);
+        if (this.child === child) {
+          this.kill(err);
+        }
+        reject(err);
+      };
+      const timer = setTimeout(() => fail(new Error(`${this.command} did not load within ${timeoutMs} ms`)), timeoutMs);
+
+      child.stdout?.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          let reply: WorkerReply;
+          try {
+            reply = JSON.parse(line);
+          } catch {
+            // Libraries print progress to stdout too
+            continue;
+          }
+          if (reply.ready) {
+            clearTimeout(timer);
+            resolve();
+          } else {
+            this.settle(reply);
+          }
+        }
+      });
+      // Kept for the error message; Python puts the exception on the last line
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-4096);
+      });
+      // The close handler reports a worker that died while a path was written to it
+      child.stdin?.on('error', () => {});
+      child.on('error', (err: NodeJS.ErrnoException) => {
+        fail(err.code === 'ENOENT' ? new Error(`${this.command} is not installed or not on PATH`) : err);
+      });
+      child.on('close', (code) => {
+        const lastLine = stderr.trim().split('\n').pop();
+        fail(new Error(`${this.command} exited with code ${code}${lastLine ? `: ${lastLine}` : ''}`));
+      });
+    });
+  }
+
+  private settle(reply: WorkerReply): void {
+    const request = this.pending.shift();
+    if (!request) {
+      return;
+    }
+    clearTimeout(request.timer);
+    if (reply.error !== undefined) {
+      request.reject(new Error(`${this.command} failed: ${reply.error}`));
+    } else {
+      request.resolve(reply.text ?? '');
+    }
+  }
+}
+
+interface TSVWord {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  confidence: number;
+  text: string;
+}
+
+// Parse `tesseract ... tsv` output into line-level observations. The page row gives the image
+// size; `imageSize` stands in for it when the output has none.
+export function parseTesseractTSV(tsv: string, imageSize?: ImageSize): OCRData {
+  let imageWidth = imageSize?.width ?? 0;
+  let imageHeight = imageSize?.height ?? 0;
+  const lines = new Map<string, TSVWord[]>();
+
+  for (const row of tsv.split('\n')) {
+    const cols = row.split('\t');
+    if (cols.length < 12 || cols[0] === 'level') {
+      continue;
+    }
+
+    const [level, page, block, par, line] = cols.slice(0, 5).map(Number);
+    const [left, top, width, height] = cols.slice(6, 10).map(Number);
+
+    if (level === 1) {
+      imageWidth = width;
+      imageHeight = height;
+      continue;
+    }
+
+    const text = cols.slice(11).join('\t').trim();
+    if (level !== 5 || !text) {
+      continue;
+    }
+
+    const key = `${page}-${block}-${par}-${line}`;
+    const words = lines.get(key) ?? [];
+    words.push({ left, top, width, height, confidence: Number(cols[10]), text });
+    lines.set(key, words);
+  }
+
+  if (lines.size > 0 && (imageWidth <= 0 || imageHeight <= 0)) {
+    throw new Error('Tesseract output has no page size');
+  }
+
+  const observations: TextObservation[] = [];
+  for (const words of lines.values()) {
+    const left = Math.min(...words.map((w) => w.left));
+    const top = Math.min(...words.map((w) => w.top));
+    const right = Math.max(...words.map((w) => w.left + w.width));
+    const bottom = Math.max(...words.map((w) => w.top + w.height));
+    const scored = words.filter((w) => w.confidence >= 0);
+    const confidence = scored.length > 0
+      ? scored.reduce((sum, w) => sum + w.confidence, 0) / scored.length / 100
+      : 0;
+
+    observations.push(observationFromPixelRect(
+      joinText(words.map((w) => w.text)),
+      confidence,
+      { left, top, width: right - left, height: bottom - top },
+      imageWidth,
+      imageHeight
+    ));
+  }
+
+  return { imageWidth, imageHeight, observations };
+}
+
+// Engine that runs a locally installed OCR program (Tesseract, manga-ocr, ...) over image files.
+// Live windows are picked and captured with xdotool and ImageMagick, so it works on X11 desktops.
+export class CommandEngine extends EventEmitter implements OCREngine {
+  readonly name: string;
+  readonly capabilities: EngineCapabilities;
+
+  private recognizer: RecognizerConfig;
+  private target: WindowSelectedData | null = null;
+  private ready: boolean = false;
+  private running = new Set<ChildProcess>();
+  private timeouts: EngineTimeouts = DEFAULT_TIMEOUTS;
+  private worker: RecognizerWorker | null;
+
+  constructor(recognizer: RecognizerConfig = TESSERACT_RECOGNIZER) {
+    super();
+    this.recognizer = recognizer;
+    this.worker = recognizer.worker ? new RecognizerWorker(recognizer.command, recognizer.args) : null;
+    this.name = recognizer.name;
+    this.capabilities = {
+      windowCapture: true,
+      imageScan: true,
+      boxes: recognizer.format === 'tesseract-tsv' ? 'line' : 'image',
+      confidence: recognizer.format === 'tesseract-tsv'
+    };
+  }
+
+  async start(): Promise<void> {
+    // Fail early if the recognizer is missing rather than on the first scan. A worker has to load
+    // its model anyway, which also shows whether its packages are installed.
+    if (this.worker) {
+      await this.worker.start(this.timeouts.scanMs);
+    } else {
+      await run(this.recognizer.command, ['--version'], this.timeouts.startupMs);
+    }
+    this.ready = true;
+  }
+
+  stop(): void {
+    this.cancel();
+    this.worker?.kill(new Error(`${this.recognizer.command} stopped`));
+    this.ready = false;
+  }
+
+  setTimeouts(timeouts: EngineTimeouts): void {
+    this.timeouts = timeouts;
+  }
+
+  cancel(): void {
+    for (const child of this.running) {
+      cancelledChildren.add(child);
+      child.kill();
+    }
+    this.running.clear();
+    // A worker cannot drop one image, only start over and load its model again
+    if (this.worker?.isBusy()) {
+      this.worker.kill(new Error(`${this.recognizer.command} cancelled`));
+    }
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async pick(): Promise<WindowSelectedData> {
+    let output: string;
+    try {
+      output = await run('xdotool', ['selectwindow'], this.timeouts.pickMs, this.running);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(message.includes('not installed') ? message : 'Window selection cancelled');
+    }
+
+    const windowId = parseInt(output.trim());
+    if (!windowId) {
+      throw new Error('Window selection cancelled');
+    }
+
+    const ownerPID = await run('xdotool', ['getwindowpid', String(windowId)], 2000)
+      .then((out) => parseInt(out.trim()) || null)
+      .catch(() => null);
+    const windowTitle = await run('xdotool', ['getwindowname', String(windowId)], 2000)
+      .then((out) => out.trim() || null)
+      .catch(() => null);
+
+    this.target = {
+      windowId,
+      appName: ownerPID ? this.readProcessName(ownerPID) : null,
+      windowTitle,
+      bounds: await this.getWindowBounds(windowId),
+      ownerPID
+    };
+    this.emit('window-selected', this.target);
+    return this.target;
+  }
+
+  async scan(options?: ScanOptions): Promise<OCRData> {
+    // Like the Swift CLI, scanning without a target asks for one first
+    const target = this.target ?? await this.pick();
+    if (target.windowId === null) {
+      throw new Error('No window selected');
+    }
+
+    const bounds = await this.getWindowBounds(target.windowId) ?? target.bounds ?? undefined;
+    const imagePath = options?.saveTo ?? path.join(os.tmpdir(), `ocr-capture-${process.pid}-${Date.now()}.png`);
+
+    try {
+      await run('import', ['-window', String(target.windowId), imagePath], this.timeouts.scanMs, this.running);
+      const data = await this.scanImage(imagePath, options);
+      return { ...data, bounds };
+    } finally {
+      if (!options?.saveTo) {
+        fs.promises.unlink(imagePath).catch(() => {});
+      }
+    }
+  }
+
+  scanImage(image: string | Buffer, options?: ScanOptions): Promise<OCRData> {
+    return withImageFile(image, async (imagePath) => {
+      if (!isPreprocessing(options?.preprocess) && !options?.previewTo) {
+        return this.recognizeImage(imagePath, options);
+      }
+      const { width, height } = readImageSizeFromFile(imagePath);
+      return this.withPreprocessed(imagePath, options!, async (processedPath) => {
+        const data = await this.recognizeImage(processedPath, options);
+        // Boxes are normalized, so they fit the capture as it was before upscaling
+        return { ...data, imageWidth: width, imageHeight: height };
+      });
+    });
+  }
+
+  private recognizeImage(imagePath: string, options?: ScanOptions): Promise<OCRData> {
+    return options?.region
+      ? this.recognizeRegion(imagePath, options.region, options)
+      : this.recognize(imagePath, options);
+  }
+
+  // Runs the preprocessing filters through ImageMagick and writes the preview, if asked for
+  private async withPreprocessed<T>(imagePath: string, options: ScanOptions, fn: (processedPath: string) => Promise<T>): Promise<T> {
+    if (!isPreprocessing(options.preprocess)) {
+      fs.copyFileSync(imagePath, options.previewTo!);
+      return fn(imagePath);
+    }
+    const processedPath = path.join(os.tmpdir(), `ocr-preprocessed-${process.pid}-${Date.now()}.png`);
+    try {
+      await run('convert', [imagePath, ...imageMagickArgs(options.preprocess), processedPath], this.timeouts.scanMs, this.running);
+      if (options.previewTo) {
+        fs.copyFileSync(processedPath, options.previewTo);
+      }
+      return await fn(processedPath);
+    } finally {
+      fs.promises.unlink(processedPath).catch(() => {});
+    }
+  }
+
+  // Crop with ImageMagick, recognize the crop and map the boxes back onto the whole image
+  private async recognizeRegion(imagePath: string, region: ScanRegion, options: ScanOptions): Promise<OCRData> {
+    const { width, height } = readImageSizeFromFile(imagePath);
+    // Whole pixels, at least one and never outside the image
+    const pixels = normalizedToImage(region, width, height);
+    const left = Math.min(Math.max(Math.floor(pixels.x), 0), width - 1);
+    const right = Math.min(Math.max(Math.ceil(pixels.x + pixels.width), left + 1), width);
+    const top = Math.min(Math.max(Math.floor(pixels.y), 0), height - 1);
+    const bottom = Math.min(Math.max(Math.ceil(pixels.y + pixels.height), top + 1), height);
+
+    const cropPath = path.join(os.tmpdir(), `ocr-region-${process.pid}-${Date.now()}.png`);
+    try {
+      await run('convert', [
+        imagePath, '-crop', `${right - left}x${bottom - top}+${left}+${top}`, '+repage', cropPath
+      ], this.timeouts.scanMs, this.running);
+      const data = await this.recognize(cropPath, options);
+      // The region that was actually cropped, after rounding to pixels
+      const cropped: ScanRegion = imageToNormalized(
+        { x: left, y: top, width: right - left, height: bottom - top },
+        width,
+        height
+      );
+      return {
+        imageWidth: width,
+        imageHeight: height,
+        observations: data.observations.map((obs) => observationFromRegion(obs, cropped))
+      };
+    } finally {
+      fs.promises.unlink(cropPath).catch(() => {});
+    }
+  }
+
+  private async recognize(imagePath: string, options?: ScanOptions): Promise<OCRData> {
+    const languages = (options?.languages ?? DEFAULT_LANGUAGES)
+      .map((lang) => this.recognizer.languageMap?.[lang] ?? lang)
+      .join(this.recognizer.languageSeparator ?? ',');
+    // One pass with a function, so neither value is read as a pattern or expanded again
+    const values: Record<string, string> = { '{image}': imagePath, '{languages}': languages };
+    const args = this.recognizer.args.map((arg) => arg.replace(/\{image\}|\{languages\}/g, (key) => values[key]));
+
+    const output = this.worker
+      ? await this.worker.recognize(imagePath, this.timeouts.scanMs)
+      : await run(this.recognizer.command, args, this.timeouts.scanMs, this.running);
+
+    if (this.recognizer.format === 'tesseract-tsv') {
+      return parseTesseractTSV(output, readImageSizeFromFile(imagePath));
+    }
+
+    const { width, height } = readImageSizeFromFile(imagePath);
+    const text = output.trim();
+    return {
+      imageWidth: width,
+      imageHeight: height,
+      observations: text
+        ? [observationFromPixelRect(text, 1, { left: 0, top: 0, width, height }, width, height)]
+        : []
+    };
+  }
+
+  // A window xdotool cannot find any more is closed; window managers unmap minimized windows,
+  // which xwininfo reports. Without xwininfo the window counts as visible.
+  async windowState(): Promise<WindowState> {
+    if (!this.target || this.target.windowId === null) {
+      throw new Error('No window selected');
+    }
+    const windowId = String(this.target.windowId);
+    const bounds = await this.getWindowBounds(this.target.windowId);
+    if (!bounds) {
+      return { state: 'closed', bounds: null, windowTitle: null, frontmost: false };
+    }
+    const [mapState, windowTitle, activeWindow] = await Promise.all([
+      run('xwininfo', ['-id', windowId], 2000)
+        .then((out) => /Map State:\s*(\w+)/.exec(out)?.[1] ?? null)
+        .catch(() => null),
+      run('xdotool', ['getwindowname', windowId], 2000).then((out) => out.trim()).catch(() => null),
+      run('xdotool', ['getactivewindow'], 2000).then((out) => out.trim()).catch(() => null)
+    ]);
+    return {
+      state: mapState && mapState !== 'IsViewable' ? 'hidden' : 'visible',
+      bounds,
+      windowTitle,
+      frontmost: activeWindow === windowId
+    };
+  }
+
+  private async getWindowBounds(windowId: number): Promise<WindowBounds | null> {
+    try {
+      const output = await run('xdotool', ['getwindowgeometry', '--shell', String(windowId)], 2000);
+      const values = new Map<string, number>();
+      for (const line of output.split('\n')) {
+        const [key, value] = line.split('=');
+        if (key && value) {
+          values.set(key.trim(), Number(value));
+        }
+      }
+      return {
+        x: values.get('X') ?? 0,
+        y: values.get('Y') ?? 0,
+        width: values.get('WIDTH') ?? 0,
+        height: values.get('HEIGHT') ?? 0
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private readProcessName(pid: number): string | null {
+    try {
+      return fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim() || null;
+    } catch {
+      return null;
+    }
+  }
+}
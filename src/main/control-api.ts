@@ -0,0 +1,206 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { OCRData, WindowSelectedData } from './ocr-engine';
+
+export interface ControlApiSettings {
+  enabled: boolean;
+  port: number;
+  token: string;
+}
+
+// What the API can do; implemented in index.ts with the same functions the shortcuts use
+export interface ControlActions {
+  // Resolves with null when watch mode took the request as a re-scan trigger
+  scan(): Promise<OCRData | null>;
+  pick(): Promise<WindowSelectedData>;
+  latest(): { id: string; timestamp: number; data: OCRData } | null;
+  target(): WindowSelectedData | null;
+  status(): Record<string, unknown>;
+  showOverlay(): void;
+  hideOverlay(): void;
+  toggleOverlay(): void;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Interval of the SSE comments that keep idle connections from being dropped
+const KEEPALIVE_MS = 15000;
+
+export function generateToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function sameToken(given: string, expected: string): boolean {
+  // Hash first so the comparison takes the same time whatever the lengths
+  const a = crypto.createHash('sha256').update(given).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Localhost HTTP/JSON API for scripts and stream-deck buttons. Every request needs the token,
+// as `Authorization: Bearer <token>` or, for EventSource clients, a `token` query parameter.
+//
+//   GET  /status           engine and watch state
+//   GET  /results/latest   the scan shown in the overlay
+//   GET  /window           the picked window
+//   POST /scan             scan the picked window (asks for one first if needed)
+//   POST /pick             open the window picker
+//   POST /overlay/show | /overlay/hide | /overlay/toggle
+//   GET  /events           server-sent events: 'result' after every scan, 'window' after every pick
+export class ControlServer {
+  private actions: ControlActions;
+  private server: http.Server | null = null;
+  private settings: ControlApiSettings | null = null;
+  private subscribers = new Set<http.ServerResponse>();
+  private keepAlive: ReturnType<typeof setInterval> | null = null;
+
+  constructor(actions: ControlActions) {
+    this.actions = actions;
+  }
+
+  // Starts, stops or moves the server to match the settings; a new token applies immediately
+  async configure(settings: ControlApiSettings): Promise<void> {
+    const previous = this.settings;
+    this.settings = settings;
+
+    const running = this.server !== null;
+    const portChanged = previous?.port !== settings.port;
+    if (running && (!settings.enabled || !settings.token || portChanged)) {
+      this.stop();
+    }
+    if (settings.enabled && settings.token && this.server === null) {
+      await this.listen(settings.port);
+      console.log(`Control API listening on http://127.0.0.1:${settings.port}`);
+    }
+  }
+
+  stop(): void {
+    for (const subscriber of this.subscribers) {
+      subscriber.end();
+    }
+    this.subscribers.clear();
+    if (this.keepAlive) {
+      clearInterval(this.keepAlive);
+      this.keepAlive = null;
+    }
+    this.server?.closeAllConnections();
+    this.server?.close();
+    this.server = null;
+  }
+
+  publish(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const subscriber of this.subscribers) {
+      subscriber.write(message);
+    }
+  }
+
+  private listen(port: number): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        const status = err instanceof HttpError ? err.status : 500;
+        this.sendJSON(res, status, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+
+    // Taken right away so a second configure() while this one is listening does nothing
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', (err) => {
+        if (this.server === server) {
+          this.server = null;
+        }
+        reject(err);
+      });
+      server.listen(port, '127.0.0.1', () => {
+        this.keepAlive = setInterval(() => {
+          for (const subscriber of this.subscribers) {
+            subscriber.write(': keepalive\n\n');
+          }
+        }, KEEPALIVE_MS);
+        resolve();
+      });
+    });
+  }
+
+  private authorize(req: http.IncomingMessage, url: URL): void {
+    // Web pages can reach localhost too; a foreign Host header means DNS rebinding
+    const host = req.headers.host ?? '';
+    if (!/^(127\.0\.0\.1|localhost)(:\d+)?$/.test(host)) {
+      throw new HttpError(403, 'Forbidden host');
+    }
+
+    const header = req.headers.authorization;
+    const given = header?.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token');
+    if (!given || !this.settings?.token || !sameToken(given, this.settings.token)) {
+      throw new HttpError(401, 'Missing or invalid token');
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    this.authorize(req, url);
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      case 'GET /status':
+        return this.sendJSON(res, 200, this.actions.status());
+      case 'GET /results/latest': {
+        const latest = this.actions.latest();
+        if (!latest) {
+          throw new HttpError(404, 'No scan yet');
+        }
+        return this.sendJSON(res, 200, latest);
+      }
+      case 'GET /window':
+        return this.sendJSON(res, 200, { window: this.actions.target() });
+      case 'POST /scan': {
+        const data = await this.actions.scan();
+        // In watch mode the scan is only queued; its result arrives as a 'result' event
+        return data ? this.sendJSON(res, 200, { data }) : this.sendJSON(res, 202, { queued: true });
+      }
+      case 'POST /pick':
+        return this.sendJSON(res, 200, { window: await this.actions.pick() });
+      case 'POST /overlay/show':
+        this.actions.showOverlay();
+        return this.sendJSON(res, 200, { ok: true });
+      case 'POST /overlay/hide':
+        this.actions.hideOverlay();
+        return this.sendJSON(res, 200, { ok: true });
+      case 'POST /overlay/toggle':
+        this.actions.toggleOverlay();
+        return this.sendJSON(res, 200, { ok: true });
+      case 'GET /events':
+        return this.subscribe(req, res);
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  private subscribe(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+    this.subscribers.add(res);
+    req.on('close', () => this.subscribers.delete(res));
+  }
+
+  private sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,144 @@
+// Coordinate spaces between the OCR engines and the overlay:
+//
+//   normalized  Vision's space: 0..1 over the captured image, bottom-left origin. Boxes and scan
+//               regions are stored like this.
+//   image       pixels of the captured image, top-left origin; a Retina capture has two per point
+//   screen      Electron's screen points (DIP), top-left origin at the primary display. Window bounds
+//               from the Swift CLI are already points.
+//   physical    device pixels, which is what xdotool reports; on a HiDPI display each point is
+//               scaleFactor pixels
+//   overlay     CSS pixels in the overlay window, top-left origin at the window's corner
+//
+// Everything here is pure so it can be tested without Electron; callers pass `screen.getAllDisplays()`.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The part of Electron's Display used here
+export interface DisplayInfo {
+  bounds: Rect;
+  scaleFactor: number;
+}
+
+// Where to put the overlay window and where the target window lies inside it
+export interface OverlayPlacement {
+  // Overlay window, whole screen points
+  bounds: Rect;
+  // The target window in overlay CSS pixels; it extends past the overlay when the window is partly
+  // off-screen, so boxes keep their positions relative to the window
+  viewport: Rect;
+}
+
+export const UNIT_RECT: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+export function normalizedToImage(rect: Rect, imageWidth: number, imageHeight: number): Rect {
+  return normalizedToFrame(rect, { x: 0, y: 0, width: imageWidth, height: imageHeight });
+}
+
+export function imageToNormalized(rect: Rect, imageWidth: number, imageHeight: number): Rect {
+  return frameToNormalized(rect, { x: 0, y: 0, width: imageWidth, height: imageHeight });
+}
+
+// A normalized rect in the top-left-origin space of `frame`, e.g. the window's screen bounds or the
+// overlay's viewport
+export function normalizedToFrame(rect: Rect, frame: Rect): Rect {
+  return {
+    x: frame.x + rect.x * frame.width,
+    y: frame.y + (1 - rect.y - rect.height) * frame.height,
+    width: rect.width * frame.width,
+    height: rect.height * frame.height
+  };
+}
+
+export function frameToNormalized(rect: Rect, frame: Rect): Rect {
+  return {
+    x: (rect.x - frame.x) / frame.width,
+    y: 1 - (rect.y - frame.y + rect.height) / frame.height,
+    width: rect.width / frame.width,
+    height: rect.height / frame.height
+  };
+}
+
+export function intersectRects(a: Rect, b: Rect): Rect | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+}
+
+function unionRects(rects: Rect[]): Rect {
+  const x = Math.min(...rects.map((rect) => rect.x));
+  const y = Math.min(...rects.map((rect) => rect.y));
+  const right = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function distanceToRect(x: number, y: number, rect: Rect): number {
+  const dx = Math.max(rect.x - x, 0, x - rect.x - rect.width);
+  const dy = Math.max(rect.y - y, 0, y - rect.y - rect.height);
+  return Math.hypot(dx, dy);
+}
+
+// Device pixels to screen points, scaled by the display holding the rect's center (or the nearest
+// one). Each display's pixels start at its origin times its scale factor, which is how X11 scales
+// the whole desktop.
+export function physicalToScreen(rect: Rect, displays: DisplayInfo[]): Rect {
+  if (displays.length === 0) {
+    return rect;
+  }
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+  const physical = displays.map((display) => ({
+    display,
+    rect: {
+      x: display.bounds.x * display.scaleFactor,
+      y: display.bounds.y * display.scaleFactor,
+      width: display.bounds.width * display.scaleFactor,
+      height: display.bounds.height * display.scaleFactor
+    }
+  }));
+  const { display, rect: origin } = physical.reduce((best, item) =>
+    distanceToRect(centerX, centerY, item.rect) < distanceToRect(centerX, centerY, best.rect) ? item : best);
+  const scale = display.scaleFactor;
+  return {
+    x: display.bounds.x + (rect.x - origin.x) / scale,
+    y: display.bounds.y + (rect.y - origin.y) / scale,
+    width: rect.width / scale,
+    height: rect.height / scale
+  };
+}
+
+// The overlay covers the window, cut to the displays it is on, so no part of the overlay sits
+// off-screen (where the window server may move or refuse it). A window spanning several
+// displays keeps one overlay across all of them.
+export function placeOverlay(window: Rect, displays: DisplayInfo[]): OverlayPlacement {
+  const visible = displays
+    .map((display) => intersectRects(window, display.bounds))
+    .filter((rect): rect is Rect => rect !== null);
+  const area = visible.length > 0 ? intersectRects(window, unionRects(visible)) ?? window : window;
+
+  // Whole points outward, so the overlay never cuts into the window's edge
+  const x = Math.floor(area.x);
+  const y = Math.floor(area.y);
+  const bounds = {
+    x,
+    y,
+    width: Math.max(1, Math.ceil(area.x + area.width) - x),
+    height: Math.max(1, Math.ceil(area.y + area.height) - y)
+  };
+  return {
+    bounds,
+    viewport: { x: window.x - x, y: window.y - y, width: window.width, height: window.height }
+  };
+}
+
+// A normalized rect cut to the unit square, or null when nothing of it is left
+export function clampNormalized(rect: Rect): Rect | null {
+  return intersectRects(rect, UNIT_RECT);
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OCRData } from './ocr-engine';
+
+// Replaces `from` with `to` wherever it appears in a box's recognized text
+export interface CorrectionRule {
+  from: string;
+  to: string;
+}
+
+function isRule(value: unknown): value is CorrectionRule {
+  const rule = value as CorrectionRule;
+  return typeof value === 'object' && value !== null &&
+    typeof rule.from === 'string' && rule.from.length > 0 && typeof rule.to === 'string';
+}
+
+// The part of a box's text the user changed, with one unchanged character on each side so that
+// fixing one misread kanji does not rewrite that character everywhere else
+export function correctionRule(original: string, corrected: string): CorrectionRule | null {
+  if (original === corrected) {
+    return null;
+  }
+  let prefix = 0;
+  while (prefix < original.length && prefix < corrected.length && original[prefix] === corrected[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < corrected.length - prefix &&
+    original[original.length - 1 - suffix] === corrected[corrected.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const start = Math.max(prefix - 1, 0);
+  const from = original.slice(start, original.length - Math.max(suffix - 1, 0));
+  const to = corrected.slice(start, corrected.length - Math.max(suffix - 1, 0));
+  return from ? { from, to } : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Applies the rules to every box; changed boxes keep the engine's text in originalText.
+// All rules replace in one pass over the engine's text, so one rule never rewrites what another
+// produced, and longer rules go first so a specific fix wins over a shorter one it contains.
+export function applyCorrections(data: OCRData, rules: CorrectionRule[]): OCRData {
+  if (rules.length === 0) {
+    return data;
+  }
+  const replacements = new Map(rules.map((rule) => [rule.from, rule.to]));
+  const pattern = new RegExp(
+    [...replacements.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'g'
+  );
+  let changed = false;
+  const observations = data.observations.map((obs) => {
+    const text = obs.text.replace(pattern, (match) => replacements.get(match) ?? match);
+    if (text === obs.text) {
+      return obs;
+    }
+    changed = true;
+    return { ...obs, text, originalText: obs.originalText ?? obs.text };
+  });
+  return changed ? { ...data, observations } : data;
+}
+
+// Corrections the user made in the overlay, keyed by app name and kept as JSON in the
+// user-data directory, so the same misread is fixed automatically in later scans of that app
+export class CorrectionStore {
+  private filePath: string;
+  private corrections: Record<string, CorrectionRule[]>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.corrections = this.load();
+  }
+
+  private load(): Record<string, CorrectionRule[]> {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const corrections: Record<string, CorrectionRule[]> = {};
+      for (const [appName, rules] of Object.entries(raw ?? {})) {
+        if (Array.isArray(rules)) {
+          corrections[appName] = rules.filter(isRule);
+        }
+      }
+      return corrections;
+    } catch {
+      return {};
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = this.filePath + '.tmp';
+    fs.writeFileSync(tmpPath, JSON.stringify(this.corrections, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  rules(appName: string | null): CorrectionRule[] {
+    return appName ? this.corrections[appName] ?? [] : [];
+  }
+
+  // A new rule for the same text replaces the old one
+  add(appName: string | null, rule: CorrectionRule): void {
+    if (!appName) {
+      return;
+    }
+    const rules = this.rules(appName).filter((existing) => existing.from !== rule.from);
+    this.corrections[appName] = [...rules, rule];
+    this.save();
+  }
+
+  remove(appName: string | null, from: string): void {
+    if (!appName || !this.corrections[appName]) {
+      return;
+    }
+    this.corrections[appName] = this.corrections[appName].filter((rule) => rule.from !== from);
+    if (this.corrections[appName].length === 0) {
+      delete this.corrections[appName];
+    }
+    this.save();
+  }
+}
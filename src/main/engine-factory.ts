@@ -0,0 +1,22 @@
+import { OCRBridge } from './ocr-bridge';
+import { CommandEngine, MANGA_OCR_RECOGNIZER, TESSERACT_RECOGNIZER } from './command-engine';
+import { OCREngine } from './ocr-engine';
+import { Settings } from './settings';
+
+// The engine from settings, where 'auto' means Vision via the Swift CLI on macOS and
+// Tesseract elsewhere. OCR_ENGINE overrides the choice.
+export function createEngine(engine: Settings['engine']): OCREngine {
+  const configured = engine === 'auto'
+    ? (process.platform === 'darwin' ? 'vision' : 'tesseract')
+    : engine;
+  const engineName = process.env.OCR_ENGINE ?? configured;
+  switch (engineName) {
+    case 'tesseract':
+      return new CommandEngine(TESSERACT_RECOGNIZER);
+    case 'manga-ocr':
+      return new CommandEngine(MANGA_OCR_RECOGNIZER);
+    default:
+      // OCR_RECORD_SESSION captures the CLI traffic for replay with the fake CLI (src/tests)
+      return new OCRBridge(undefined, { recordTo: process.env.OCR_RECORD_SESSION });
+  }
+}
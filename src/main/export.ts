@@ -0,0 +1,196 @@
+import * as path from 'path';
+import { OCRData, TextObservation } from './ocr-engine';
+import { DocumentLayout, PixelBox, analyzeLayout, layoutText, pixelBox } from './layout';
+
+export type ExportFormat = 'text' | 'json' | 'hocr' | 'alto';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string }> = {
+  text: { name: 'Plain text', extension: 'txt' },
+  json: { name: 'JSON', extension: 'json' },
+  hocr: { name: 'hOCR', extension: 'hocr' },
+  alto: { name: 'ALTO XML', extension: 'xml' }
+};
+
+// Where a scan came from; HistoryEntry satisfies this
+export interface ExportSource {
+  appName: string | null;
+  windowTitle: string | null;
+  timestamp: number;
+}
+
+export function formatForPath(filePath: string): ExportFormat | null {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (extension === 'html') {
+    return 'hocr';
+  }
+  const match = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .find((format) => EXPORT_FORMATS[format].extension === extension);
+  return match ?? null;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Quadrilateral corners in image pixels (top-left origin), clockwise from the top-left
+function quadPoints(obs: TextObservation, data: OCRData): { x: number; y: number }[] {
+  return [obs.topLeft, obs.topRight, obs.bottomRight, obs.bottomLeft].map((corner) => ({
+    x: Math.round(corner.x * data.imageWidth),
+    y: Math.round((1 - corner.y) * data.imageHeight)
+  }));
+}
+
+function unionBox(boxes: PixelBox[]): PixelBox {
+  return {
+    left: Math.min(...boxes.map((b) => b.left)),
+    top: Math.min(...boxes.map((b) => b.top)),
+    right: Math.max(...boxes.map((b) => b.right)),
+    bottom: Math.max(...boxes.map((b) => b.bottom))
+  };
+}
+
+function roundBox(box: PixelBox): PixelBox {
+  return {
+    left: Math.round(box.left),
+    top: Math.round(box.top),
+    right: Math.round(box.right),
+    bottom: Math.round(box.bottom)
+  };
+}
+
+function exportJSON(data: OCRData, layout: DocumentLayout, source?: ExportSource): string {
+  return JSON.stringify({
+    source: source
+      ? { appName: source.appName, windowTitle: source.windowTitle, timestamp: new Date(source.timestamp).toISOString() }
+      : null,
+    imageWidth: data.imageWidth,
+    imageHeight: data.imageHeight,
+    bounds: data.bounds ?? null,
+    observations: data.observations,
+    layout
+  }, null, 2);
+}
+
+function exportHOCR(data: OCRData, layout: DocumentLayout, source?: ExportSource): string {
+  const box = (obs: TextObservation) => roundBox(pixelBox(obs, data.imageWidth, data.imageHeight));
+  const bbox = (b: PixelBox) => `bbox ${b.left} ${b.top} ${b.right} ${b.bottom}`;
+  const out: string[] = [];
+
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push('<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">');
+  out.push('<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="ja" lang="ja">');
+  out.push('<head>');
+  out.push(`  <title>${escapeXml(source?.windowTitle || source?.appName || 'OCR scan')}</title>`);
+  out.push('  <meta http-equiv="Content-Type" content="text/html; charset=utf-8" />');
+  out.push('  <meta name="ocr-system" content="ocr-overlay" />');
+  out.push('  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />');
+  out.push('</head>');
+  out.push('<body>');
+  out.push(`  <div class="ocr_page" id="page_1" title="${bbox({ left: 0, top: 0, right: data.imageWidth, bottom: data.imageHeight })}">`);
+
+  layout.blocks.forEach((block, blockIndex) => {
+    const blockBox = unionBox(block.lines.flatMap((line) => line.observations.map((i) => box(data.observations[i]))));
+    const blockId = `block_1_${blockIndex + 1}`;
+    // Vertical lines run top to bottom, i.e. rotated 270 degrees counter-clockwise
+    const angle = block.orientation === 'vertical' ? '; textangle 270' : '';
+    out.push(`    <div class="ocr_carea" id="${blockId}" title="${bbox(blockBox)}">`);
+    out.push(`      <p class="ocr_par" id="par_1_${blockIndex + 1}" title="${bbox(blockBox)}">`);
+
+    block.lines.forEach((line, lineIndex) => {
+      const lineBox = unionBox(line.observations.map((i) => box(data.observations[i])));
+      out.push(`        <span class="ocr_line" id="line_1_${blockIndex + 1}_${lineIndex + 1}" title="${bbox(lineBox)}${angle}">`);
+      for (const index of line.observations) {
+        const obs = data.observations[index];
+        const poly = quadPoints(obs, data).map((p) => `${p.x} ${p.y}`).join(' ');
+        const confidence = Math.round(obs.confidence * 100);
+        out.push(`          <span class="ocrx_word" id="word_1_${index + 1}" title="${bbox(box(obs))}; poly ${poly}; x_wconf ${confidence}">${escapeXml(obs.text)}</span>`);
+      }
+      out.push('        </span>');
+    });
+
+    out.push('      </p>');
+    out.push('    </div>');
+  });
+
+  out.push('  </div>');
+  out.push('</body>');
+  out.push('</html>');
+  return out.join('\n') + '\n';
+}
+
+function exportALTO(data: OCRData, layout: DocumentLayout, source?: ExportSource): string {
+  const box = (obs: TextObservation) => roundBox(pixelBox(obs, data.imageWidth, data.imageHeight));
+  const position = (b: PixelBox) =>
+    `HPOS="${b.left}" VPOS="${b.top}" WIDTH="${b.right - b.left}" HEIGHT="${b.bottom - b.top}"`;
+  const out: string[] = [];
+
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push('<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/standards/alto/v4/alto-4-2.xsd">');
+  out.push('  <Description>');
+  out.push('    <MeasurementUnit>pixel</MeasurementUnit>');
+  out.push('    <sourceImageInformation>');
+  out.push(`      <fileName>${escapeXml(source?.windowTitle || source?.appName || 'capture')}</fileName>`);
+  out.push('    </sourceImageInformation>');
+  out.push('    <OCRProcessing ID="OCR_0">');
+  out.push('      <ocrProcessingStep>');
+  if (source) {
+    out.push(`        <processingDateTime>${new Date(source.timestamp).toISOString()}</processingDateTime>`);
+  }
+  out.push('        <processingSoftware>');
+  out.push('          <softwareName>ocr-overlay</softwareName>');
+  out.push('        </processingSoftware>');
+  out.push('      </ocrProcessingStep>');
+  out.push('    </OCRProcessing>');
+  out.push('  </Description>');
+  out.push('  <Layout>');
+  out.push(`    <Page ID="P1" PHYSICAL_IMG_NR="1" WIDTH="${data.imageWidth}" HEIGHT="${data.imageHeight}">`);
+  out.push(`      <PrintSpace HPOS="0" VPOS="0" WIDTH="${data.imageWidth}" HEIGHT="${data.imageHeight}">`);
+
+  layout.blocks.forEach((block, blockIndex) => {
+    const blockBox = unionBox(block.lines.flatMap((line) => line.observations.map((i) => box(data.observations[i]))));
+    // ALTO rotation is counterclockwise in degrees; vertical lines run top to bottom
+    const rotation = block.orientation === 'vertical' ? ' ROTATION="270"' : '';
+    out.push(`        <TextBlock ID="B${blockIndex + 1}" ${position(blockBox)}${rotation}>`);
+
+    block.lines.forEach((line, lineIndex) => {
+      const lineBox = unionBox(line.observations.map((i) => box(data.observations[i])));
+      out.push(`          <TextLine ID="B${blockIndex + 1}_L${lineIndex + 1}" ${position(lineBox)}>`);
+      for (const index of line.observations) {
+        const obs = data.observations[index];
+        const points = quadPoints(obs, data).map((p) => `${p.x},${p.y}`).join(' ');
+        out.push(`            <String ID="S${index + 1}" ${position(box(obs))} CONTENT="${escapeXml(obs.text)}" WC="${obs.confidence.toFixed(3)}">`);
+        out.push(`              <Shape><Polygon POINTS="${points}"/></Shape>`);
+        out.push('            </String>');
+      }
+      out.push('          </TextLine>');
+    });
+
+    out.push('        </TextBlock>');
+  });
+
+  out.push('      </PrintSpace>');
+  out.push('    </Page>');
+  out.push('  </Layout>');
+  out.push('</alto>');
+  return out.join('\n') + '\n';
+}
+
+export function exportOCRData(data: OCRData, format: ExportFormat, source?: ExportSource): string {
+  const layout = data.layout ?? analyzeLayout(data);
+
+  switch (format) {
+    case 'text':
+      return layoutText(data, layout) + '\n';
+    case 'json':
+      return exportJSON(data, layout, source);
+    case 'hocr':
+      return exportHOCR(data, layout, source);
+    case 'alto':
+      return exportALTO(data, layout, source);
+  }
+}
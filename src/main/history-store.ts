@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OCRData, WindowBounds, WindowSelectedData } from './ocr-engine';
+import { layoutText } from './layout';
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  // Window the scan was taken of; missing in entries stored before it was recorded
+  windowId?: number | null;
+  appName: string | null;
+  windowTitle: string | null;
+  bounds: WindowBounds | null;
+  data: OCRData;
+}
+
+// What the history list shows; kept in the index so listing never loads full scans
+export interface HistorySummary {
+  id: string;
+  timestamp: number;
+  appName: string | null;
+  windowTitle: string | null;
+  bounds: WindowBounds | null;
+  observationCount: number;
+  text: string;
+}
+
+const MAX_ENTRIES = 1000;
+
+// Scans are stored as one JSON file each, next to an index of summaries used for listing and search
+export class HistoryStore {
+  private dir: string;
+  private indexPath: string;
+  private summaries: HistorySummary[];
+  // The latest entry from draft(), which update() stores once it is corrected
+  private draftId: string | null = null;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.indexPath = path.join(dir, 'index.json');
+    fs.mkdirSync(dir, { recursive: true });
+    this.summaries = this.loadIndex();
+  }
+
+  private loadIndex(): HistorySummary[] {
+    try {
+      const index = JSON.parse(fs.readFileSync(this.indexPath, 'utf8'));
+      return Array.isArray(index) ? index : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveIndex(): void {
+    // Write to a temp file first so a crash mid-write never leaves a truncated index
+    const tmpPath = this.indexPath + '.tmp';
+    fs.writeFileSync(tmpPath, JSON.stringify(this.summaries));
+    fs.renameSync(tmpPath, this.indexPath);
+  }
+
+  private entryPath(id: string): string {
+    // Ids come from the renderer too, never let them escape the history directory
+    return path.join(this.dir, `${path.basename(id)}.json`);
+  }
+
+  // An entry for a scan that is shown but not stored, such as a watch scan that added no text.
+  // It gets its own id so it never passes for the stored scan it replaced on screen.
+  draft(data: OCRData, target: WindowSelectedData | null): HistoryEntry {
+    const entry = this.createEntry(data, target);
+    this.draftId = entry.id;
+    return entry;
+  }
+
+  // The whole scan is stored; the list summarises `visible`, what the overlay shows of it
+  add(data: OCRData, target: WindowSelectedData | null, visible: OCRData = data): HistoryEntry {
+    const entry = this.createEntry(data, target);
+    this.store(entry, visible);
+    return entry;
+  }
+
+  // Rewrites a stored scan, e.g. after a correction, and stores the latest draft as a new entry.
+  // Entries that were pruned or deleted meanwhile are left alone.
+  update(entry: HistoryEntry, visible: OCRData = entry.data): void {
+    const summary = this.summaries.find((item) => item.id === entry.id);
+    if (!summary) {
+      if (entry.id === this.draftId) {
+        this.draftId = null;
+        this.store(entry, visible);
+      }
+      return;
+    }
+    fs.writeFileSync(this.entryPath(entry.id), JSON.stringify(entry));
+    summary.observationCount = visible.observations.length;
+    summary.text = layoutText(visible);
+    this.saveIndex();
+  }
+
+  private createEntry(data: OCRData, target: WindowSelectedData | null): HistoryEntry {
+    return {
+      id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      timestamp: Date.now(),
+      windowId: target?.windowId ?? null,
+      appName: target?.appName ?? null,
+      windowTitle: target?.windowTitle ?? null,
+      bounds: data.bounds ?? target?.bounds ?? null,
+      data
+    };
+  }
+
+  private store(entry: HistoryEntry, visible: OCRData): void {
+    fs.writeFileSync(this.entryPath(entry.id), JSON.stringify(entry));
+    this.summaries.unshift({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      appName: entry.appName,
+      windowTitle: entry.windowTitle,
+      bounds: entry.bounds,
+      observationCount: visible.observations.length,
+      text: layoutText(visible)
+    });
+
+    for (const old of this.summaries.splice(MAX_ENTRIES)) {
+      fs.rmSync(this.entryPath(old.id), { force: true });
+    }
+    this.saveIndex();
+  }
+
+  // Newest first; the query matches recognized text, app name and window title
+  list(query?: string, limit: number = 200): HistorySummary[] {
+    const needle = query?.trim().toLowerCase();
+    const matches = needle
+      ? this.summaries.filter((summary) =>
+        summary.text.toLowerCase().includes(needle) ||
+        (summary.appName ?? '').toLowerCase().includes(needle) ||
+        (summary.windowTitle ?? '').toLowerCase().includes(needle))
+      : this.summaries;
+    return matches.slice(0, limit);
+  }
+
+  get(id: string): HistoryEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.entryPath(id), 'utf8')) as HistoryEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  latest(): HistoryEntry | null {
+    return this.summaries.length > 0 ? this.get(this.summaries[0].id) : null;
+  }
+
+  delete(id: string): void {
+    this.summaries = this.summaries.filter((summary) => summary.id !== id);
+    fs.rmSync(this.entryPath(id), { force: true });
+    this.saveIndex();
+  }
+}
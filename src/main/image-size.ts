@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Read pixel dimensions from a PNG or JPEG header without decoding the image
+export function readImageSize(buffer: Buffer): ImageSize {
+  // PNG: 8 byte signature, then IHDR chunk with width/height as big-endian uint32
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return {
+      width: buffer.readUInt32BE(16),
+      height: buffer.readUInt32BE(20)
+    };
+  }
+
+  // JPEG: walk the marker segments until a start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = buffer[offset + 1];
+      // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return {
+          height: buffer.readUInt16BE(offset + 5),
+          width: buffer.readUInt16BE(offset + 7)
+        };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  throw new Error('Unsupported image format (expected PNG or JPEG)');
+}
+
+export function readImageSizeFromFile(filePath: string): ImageSize {
+  return readImageSize(fs.readFileSync(filePath));
+}
+
+// Run `fn` with a file path for the image: paths are used as they are, buffers are written
+// to a temporary file that is removed afterwards
+export async function withImageFile<T>(image: string | Buffer, fn: (imagePath: string) => Promise<T>): Promise<T> {
+  if (typeof image === 'string') {
+    return fn(image);
+  }
+  const extension = image.length >= 2 && image[0] === 0xff && image[1] === 0xd8 ? 'jpg' : 'png';
+  const imagePath = path.join(os.tmpdir(), `ocr-image-${process.pid}-${Date.now()}.${extension}`);
+  await fs.promises.writeFile(imagePath, image);
+  try {
+    return await fn(imagePath);
+  } finally {
+    fs.promises.unlink(imagePath).catch(() => {});
+  }
+}
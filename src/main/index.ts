@@ -1,15 +1,71 @@
-import { app, globalShortcut, ipcMain, session, BrowserWindow, webContents, dialog } from 'electron';
+import { app, globalShortcut, ipcMain, session, BrowserWindow, webContents, dialog, clipboard, nativeImage } from 'electron';
 import { execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import { OCRBridge } from './ocr-bridge';
+import { AnkiConnect, buildNote } from './anki';
+import { CaptureCache, captureLimits, cropArea } from './capture-cache';
+import { createEngine } from './engine-factory';
+import { OCRData, OCREngine, ScanOptions, ScanRegion, TextObservation, WindowSelectedData } from './ocr-engine';
+import { layoutText, layoutTextFor, withLayout } from './layout';
+import { HistoryEntry, HistoryStore } from './history-store';
+import { EXPORT_FORMATS, exportOCRData, formatForPath } from './export';
+import { CorrectionStore, applyCorrections, correctionRule } from './corrections';
+import { filterOCRData, isNoise } from './noise-filter';
+import { isPreprocessing } from './preprocess';
+import { RegionStore } from './region-store';
+import { PROFILE_SECTIONS, Profile, ProfileChanges, ProfileStore, ProfilesState, profileSettings, settingsForProfile } from './profiles';
+import { TextOutput } from './text-output';
+import { ControlServer, generateToken } from './control-api';
+import { NewTextEvent, ScanWatcher, WatchUpdate } from './scan-watcher';
+import { DeepPartial, Settings, SettingsError, SettingsStore, ShortcutSettings } from './settings';
 import { WindowManager } from './window-manager';
+import { WindowTracker } from './window-tracker';
+import { Translator, createTranslationProvider } from './translation';
 
-let ocrBridge: OCRBridge;
+let ocrEngine: OCREngine;
 let windowManager: WindowManager;
+let historyStore: HistoryStore;
+let settingsStore: SettingsStore;
+let regionStore: RegionStore;
+let profileStore: ProfileStore;
+let correctionStore: CorrectionStore;
+let captureCache: CaptureCache;
+const textOutput = new TextOutput((text) => clipboard.writeText(text));
+const translator = new Translator();
+const controlServer = new ControlServer({
+  scan: scanTarget,
+  pick: pickTarget,
+  latest: () => currentEntry && { id: currentEntry.id, timestamp: currentEntry.timestamp, data: visibleData(currentEntry.data) },
+  target: () => currentTarget,
+  status: () => ({
+    engine: ocrEngine.name,
+    ready: ocrEngine.isReady(),
+    watching: scanWatcher.isActive(),
+    window: currentTarget,
+    region: currentRegion
+  }),
+  showOverlay: () => windowManager.showOverlay(),
+  hideOverlay,
+  toggleOverlay: () => windowManager.toggleOverlay()
+});
 let yomitanExtension: Electron.Extension | null = null;
-let settingsWindow: BrowserWindow | null = null;
 let backendWindow: BrowserWindow | null = null;
+// The scan shown in the overlay: the latest one, or one re-opened from history
+let currentEntry: HistoryEntry | null = null;
+let currentTarget: WindowSelectedData | null = null;
+let scanWatcher: ScanWatcher;
+let windowTracker: WindowTracker;
+// Window ids watch mode was turned on for; it resumes when one of them is picked again
+const watchedTargets = new Set<number>();
+let watchedWindowId: number | null = null;
+// Part of the picked window that scans are limited to, null for the whole window
+let currentRegion: ScanRegion | null = null;
+// Profile matching the picked window, if any
+let activeProfile: Profile | null = null;
+// The global settings with the active profile's overrides; what scans, the noise filter and the
+// overlay go by
+let activeSettings: Settings;
 
 async function loadYomitanExtension() {
   // Try packaged app location first (unpacked from asar), then development location
@@ -106,38 +162,112 @@ function openYomitanSettings() {
   });
 }
 
+function engineSetupHint(engine: OCREngine): string {
+  if (engine instanceof OCRBridge) {
+    return 'Failed to start the OCR command line tool. Make sure the CLI is built:\n\n' +
+      'cd swift && swift build -c release\n' +
+      'cp .build/release/OCRCli ../build/ocrcli';
+  }
+  return `Failed to start the ${engine.name} OCR engine. Make sure it is installed, ` +
+    'along with xdotool and ImageMagick for window capture.';
+}
+
 async function init() {
-  ocrBridge = new OCRBridge();
+  settingsStore = new SettingsStore(path.join(app.getPath('userData'), 'settings.json'));
+  const settings = settingsStore.get();
+  activeSettings = settings;
+  ocrEngine = createEngine(settings.engine);
+  ocrEngine.setTimeouts(settings.timeouts);
   windowManager = new WindowManager();
+  windowManager.applyOverlaySettings(settings);
+  windowManager.applyReadingPanelSettings(settings);
+  historyStore = new HistoryStore(path.join(app.getPath('userData'), 'history'));
+  regionStore = new RegionStore(path.join(app.getPath('userData'), 'regions.json'));
+  profileStore = new ProfileStore(path.join(app.getPath('userData'), 'profiles.json'));
+  correctionStore = new CorrectionStore(path.join(app.getPath('userData'), 'corrections.json'));
+  captureCache = new CaptureCache(path.join(app.getPath('userData'), 'captures'), captureLimits(settings.captures));
 
   // Load Yomitan extension before creating windows
   await loadYomitanExtension();
 
   try {
-    console.log('Starting OCR CLI...');
-    await ocrBridge.start();
-    console.log('OCR CLI ready');
+    console.log(`Starting OCR engine (${ocrEngine.name})...`);
+    await ocrEngine.start();
+    console.log('OCR engine ready');
   } catch (err) {
-    console.error('Failed to start OCR CLI:', err);
-    dialog.showErrorBox(
-      'OCR CLI Error',
-      'Failed to start the OCR command line tool. Make sure the CLI is built:\n\n' +
-      'cd swift && swift build -c release\n' +
-      'cp .build/release/OCRCli ../build/ocrcli'
-    );
+    console.error('Failed to start OCR engine:', err);
+    dialog.showErrorBox('OCR Engine Error', engineSetupHint(ocrEngine));
     app.quit();
     return;
   }
 
-  // Handle OCR CLI crashes
-  ocrBridge.on('close', (code: number) => {
-    if (code !== 0) {
-      console.error('OCR CLI crashed with code:', code);
-      windowManager.showError('OCR engine crashed. Restart the app.');
+  // Remember what was picked, also when a scan had to ask for a window first
+  ocrEngine.on('window-selected', (windowInfo: WindowSelectedData) => {
+    currentTarget = windowInfo;
+    useProfileFor(windowInfo);
+    followWatchTarget(windowInfo);
+    trackTarget(windowInfo);
+    controlServer.publish('window', windowInfo);
+  });
+
+  // The bridge restarts a crashed CLI by itself, the overlay only reports what is going on
+  ocrEngine.on('restarting', ({ attempt }: { attempt: number }) => {
+    windowManager.showEngineStatus({
+      state: 'restarting',
+      message: `OCR engine crashed, restarting (attempt ${attempt})...`
+    });
+  });
+
+  ocrEngine.on('restarted', () => {
+    windowManager.showEngineStatus({ state: 'running', message: 'OCR engine restarted' });
+  });
+
+  ocrEngine.on('crash-loop', ({ crashes }: { crashes: number }) => {
+    console.error(`OCR engine crashed ${crashes} times, not restarting`);
+    windowManager.showEngineStatus({
+      state: 'failed',
+      message: 'OCR engine keeps crashing. Restart the app.'
+    });
+  });
+
+  scanWatcher = new ScanWatcher(scanCurrentTarget, settings.watch.intervalMs);
+  scanWatcher.on('update', showWatchUpdate);
+  scanWatcher.on('new-text', (event: NewTextEvent) => {
+    // Text that only appeared in boxes the noise filter hides is not worth a history entry
+    const filter = activeSettings.noiseFilter;
+    const visible = event.observations.filter((i) => !isNoise(event.data.observations[i], event.data, filter));
+    if (visible.length === 0) {
+      return;
     }
+    console.log(`New text in ${visible.length} regions`);
+    currentEntry = historyStore.add(event.data, currentTarget, visibleData(event.data));
+    windowManager.notifyHistoryChanged();
   });
+  scanWatcher.on('scan-failed', (err: Error) => {
+    console.error('Watch scan failed:', err.message);
+  });
+
+  windowTracker = new WindowTracker(() => ocrEngine.windowState(), settings.tracking.intervalMs);
+  windowManager.followTarget(windowTracker);
+  windowTracker.on('closed', () => {
+    console.log('Target window closed');
+    // Scans of a closed window can only fail
+    if (watchedWindowId !== null) {
+      watchedTargets.delete(watchedWindowId);
+    }
+    stopWatching();
+  });
+  // Games change their title between scenes, and another window of the app may have come to the
+  // front; either can call for a different profile
+  windowTracker.on('retitled', (windowTitle: string) => {
+    if (currentTarget) {
+      currentTarget = { ...currentTarget, windowTitle };
+      rematchProfile();
+    }
+  });
+  windowTracker.on('focused', rematchProfile);
 
-  ocrBridge.on('error', (err: Error) => {
+  ocrEngine.on('error', (err: Error) => {
     console.error('OCR CLI error:', err);
     windowManager.showError('OCR engine error: ' + err.message);
   });
@@ -145,15 +275,17 @@ async function init() {
   // Create the overlay window
   windowManager.createOverlay();
 
+  settingsStore.on('changed', applySettings);
+  configureTextOutput(settings);
+  configureControlApi(settings);
+
   // Register global shortcuts
-  registerShortcuts();
+  registerShortcuts(settings.shortcuts);
 
   console.log('Ready! Shortcuts:');
-  console.log('  Option+A: Scan window');
-  console.log('  Cmd+Shift+P: Pick window');
-  console.log('  Cmd+Shift+H: Toggle overlay');
-  console.log('  Cmd+Shift+Y: Yomitan settings');
-  console.log('  Escape: Hide overlay');
+  for (const key of Object.keys(SHORTCUT_ACTIONS) as (keyof ShortcutSettings)[]) {
+    console.log(`  ${settings.shortcuts[key]}: ${SHORTCUT_ACTIONS[key].label}`);
+  }
 }
 
 function getFrontmostPID(): number | null {
@@ -168,88 +300,753 @@ function getFrontmostPID(): number | null {
   }
 }
 
-function registerShortcuts() {
-  // Option+A: Trigger OCR scan
-  globalShortcut.register('Option+A', async () => {
-    windowManager.setPreviousPID(getFrontmostPID());
-    console.log('Scanning...');
-    try {
-      const result = await ocrBridge.scan();
-      console.log(`Found ${result.observations.length} text regions`);
-      console.log('Scan result bounds:', result.bounds);
-
-      // Position overlay to match current target window position
-      if (result.bounds) {
-        windowManager.positionOverlay(result.bounds);
-      } else {
-        console.log('No bounds in scan result!');
-      }
+function showEntryInOverlay(entry: HistoryEntry): void {
+  const result = entry.data;
+  currentEntry = entry;
 
-      windowManager.updateOCRResults(result);
-      windowManager.showOverlay();
-    } catch (err) {
-      console.error('Scan failed:', err);
-      const errorMsg = err instanceof Error ? err.message : 'Scan failed';
-      // Only show error if it's not a user cancellation
-      if (!errorMsg.includes('cancelled')) {
-        windowManager.showOverlay();
-        windowManager.showError(errorMsg);
-      }
+  // Position overlay to match current target window position
+  if (result.bounds) {
+    windowManager.positionOverlay(result.bounds);
+  } else {
+    console.log('No bounds in scan result!');
+  }
+
+  windowManager.updateOCRResults(result);
+  windowManager.showOverlay();
+  updateReadingPanel();
+}
+
+let readingPanelQueued = false;
+
+// Sends the current scan to the reading panel. Queued to the end of the turn so a watch-mode
+// update and the history entry created right after it reach the panel once, under the new id.
+function updateReadingPanel(): void {
+  if (readingPanelQueued) {
+    return;
+  }
+  readingPanelQueued = true;
+  queueMicrotask(() => {
+    readingPanelQueued = false;
+    if (!currentEntry) {
+      return;
     }
+    const { data } = currentEntry;
+    const filter = activeSettings.noiseFilter;
+    windowManager.updateReadingPanel({
+      entryId: currentEntry.id,
+      title: describeHistoryEntry(currentEntry),
+      // Whole scan so box indices match the overlay's
+      data,
+      hidden: data.observations.flatMap((obs, i) => (isNoise(obs, data, filter) ? [i] : []))
+    });
   });
+}
 
-  // Cmd+Shift+P: Open window picker
-  globalShortcut.register('CommandOrControl+Shift+P', async () => {
-    windowManager.setPreviousPID(getFrontmostPID());
-    console.log('Opening window picker...');
-    try {
-      const windowInfo = await ocrBridge.pick();
-      console.log('Selected window:', windowInfo.windowTitle || windowInfo.appName);
+function describeHistoryEntry(entry: HistoryEntry): string {
+  const source = [entry.appName, entry.windowTitle].filter(Boolean).join(' — ') || 'Unknown window';
+  return `${source} · ${new Date(entry.timestamp).toLocaleString()}`;
+}
+
+async function exportEntry(entry: HistoryEntry): Promise<boolean> {
+  const stamp = new Date(entry.timestamp).toISOString().replace(/[:.]/g, '-');
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export Scan',
+    defaultPath: `scan-${stamp}.${EXPORT_FORMATS.text.extension}`,
+    filters: Object.values(EXPORT_FORMATS).map((format) => ({ name: format.name, extensions: [format.extension] }))
+  });
+  if (canceled || !filePath) {
+    return false;
+  }
+
+  // The format follows the chosen extension, anything unknown is written as plain text
+  const format = formatForPath(filePath) ?? 'text';
+  fs.writeFileSync(filePath, exportOCRData(visibleData(entry.data), format, entry));
+  console.log(`Exported scan as ${format} to ${filePath}`);
+  return true;
+}
 
-      windowManager.setTargetPID(windowInfo.ownerPID);
+// Languages, region and filters for scanning the picked window
+function currentScanOptions(): ScanOptions {
+  const { preprocess } = activeSettings;
+  return {
+    languages: activeSettings.recognition.languages,
+    region: currentRegion ?? undefined,
+    preprocess: isPreprocessing(preprocess) ? preprocess : undefined
+  };
+}
 
-      if (windowInfo.bounds) {
-        windowManager.positionOverlay(windowInfo.bounds);
-        windowManager.showOverlayPassThrough();
+async function scanCurrentTarget(): Promise<OCRData> {
+  // Mined cards get a picture of their boxes, so mining keeps captures too
+  const { captures, anki } = settingsStore.get();
+  const capture = captures.keep || anki.enabled ? captureCache.reserve() : null;
+  let data: OCRData;
+  try {
+    data = await ocrEngine.scan({ ...currentScanOptions(), saveTo: capture?.path });
+  } catch (err) {
+    if (capture) {
+      captureCache.discard(capture.id);
+    }
+    throw err;
+  }
+  if (capture && captureCache.add(capture.id)) {
+    data = { ...data, capture: capture.id };
+  }
+  // Fix the misreads corrected in earlier scans of this app; the target is known by now,
+  // also when the scan had to pick a window first
+  return withLayout(applyCorrections(data, correctionStore.rules(currentTarget?.appName ?? null)));
+}
+
+// The boxes cut out of the scan's capture, or null when it is no longer in the cache
+function cropCapture(data: OCRData, indices: number[]): Electron.NativeImage | null {
+  const file = data.capture ? captureCache.path(data.capture) : null;
+  const image = file ? nativeImage.createFromPath(file) : null;
+  if (!image || image.isEmpty()) {
+    return null;
+  }
+  const { width, height } = image.getSize();
+  const area = cropArea(data, indices, width, height);
+  return area ? image.crop(area) : null;
+}
+
+// The scan as the overlay shows it. Scans are kept whole so the overlay can bring boxes back
+// when the filter is relaxed; everything leaving the app goes through here.
+function visibleData(data: OCRData): OCRData {
+  return filterOCRData(data, activeSettings.noiseFilter);
+}
+
+// Everything that consumes finished scans, from manual scans and watch mode alike
+function publishScanResult(data: OCRData): void {
+  const visible = visibleData(data);
+  textOutput.publish(visible);
+  controlServer.publish('result', {
+    window: currentTarget,
+    text: layoutText(visible),
+    data: visible
+  });
+}
+
+// Used by the scan shortcut and the control API. Failures are shown in the overlay and rethrown;
+// resolves with null when watch mode takes the request as a re-scan trigger.
+async function scanTarget(): Promise<OCRData | null> {
+  // In watch mode the scan shortcut asks for an immediate re-scan
+  if (scanWatcher.isActive()) {
+    scanWatcher.trigger();
+    return null;
+  }
+
+  windowManager.setPreviousPID(getFrontmostPID());
+  console.log('Scanning...');
+  try {
+    const result = await scanCurrentTarget();
+    console.log(`Found ${result.observations.length} text regions`);
+    console.log('Scan result bounds:', result.bounds);
+
+    showEntryInOverlay(historyStore.add(result, currentTarget, visibleData(result)));
+    windowManager.notifyHistoryChanged();
+    publishScanResult(result);
+    return result;
+  } catch (err) {
+    console.error('Scan failed:', err);
+    const errorMsg = err instanceof Error ? err.message : 'Scan failed';
+    // Only show error if it's not a user cancellation
+    if (!errorMsg.includes('cancelled')) {
+      windowManager.showOverlay();
+      windowManager.showError(errorMsg);
+    }
+    throw err;
+  }
+}
+
+// Used by the pick shortcut and the control API; failures are shown in the overlay and rethrown
+async function pickTarget(): Promise<WindowSelectedData> {
+  windowManager.setPreviousPID(getFrontmostPID());
+  console.log('Opening window picker...');
+  try {
+    const windowInfo = await ocrEngine.pick();
+    console.log('Selected window:', windowInfo.windowTitle || windowInfo.appName);
+
+    windowManager.setTargetPID(windowInfo.ownerPID);
+
+    if (windowInfo.bounds) {
+      windowManager.positionOverlay(windowInfo.bounds);
+      windowManager.showOverlayPassThrough();
+    }
+    return windowInfo;
+  } catch (err) {
+    console.error('Window picker failed:', err);
+    const errorMsg = err instanceof Error ? err.message : 'Failed to select window';
+    // Don't show error for user-cancelled selection
+    if (!errorMsg.includes('cancelled')) {
+      windowManager.showError(errorMsg);
+    }
+    throw err;
+  }
+}
+
+function showWatchUpdate({ data, diff }: WatchUpdate): void {
+  // Keep copy and export in step with the screen. New text is stored by the 'new-text' handler;
+  // until then the scan is a draft, stored only if it gets corrected.
+  currentEntry = historyStore.draft(data, currentTarget);
+  if (data.bounds) {
+    windowManager.positionOverlay(data.bounds);
+  }
+  windowManager.updateOCRResults(data, diff);
+  publishScanResult(data);
+  updateReadingPanel();
+}
+
+function toggleWatch(): void {
+  const windowId = currentTarget?.windowId ?? null;
+  if (windowId === null) {
+    windowManager.showOverlay();
+    windowManager.showError('Pick a window to watch first');
+    return;
+  }
+
+  if (watchedTargets.has(windowId)) {
+    watchedTargets.delete(windowId);
+    stopWatching();
+  } else {
+    watchedTargets.add(windowId);
+    followWatchTarget(currentTarget!);
+    windowManager.showOverlay();
+  }
+}
+
+function stopWatching(): void {
+  if (scanWatcher.isActive()) {
+    console.log('Watch mode off');
+  }
+  scanWatcher.stop();
+  watchedWindowId = null;
+}
+
+// Watch mode runs for the picked window only if it was turned on for that window
+function followWatchTarget(target: WindowSelectedData): void {
+  if (target.windowId === null || !watchedTargets.has(target.windowId)) {
+    stopWatching();
+    return;
+  }
+  if (scanWatcher.isActive() && watchedWindowId === target.windowId) {
+    return;
+  }
+  console.log(`Watch mode on for ${target.windowTitle || target.appName || 'window ' + target.windowId}`);
+  watchedWindowId = target.windowId;
+  // What the overlay shows of this window, so the first watch scan only updates what changed and
+  // text already in the history is not stored again
+  scanWatcher.start(currentEntry?.windowId === target.windowId ? currentEntry.data : null);
+}
+
+// The overlay follows the picked window, when the engine can capture windows at all
+function trackTarget(target: WindowSelectedData): void {
+  if (settingsStore.get().tracking.enabled && ocrEngine.capabilities.windowCapture && target.windowId !== null) {
+    windowTracker.start(target.bounds, target.windowTitle);
+  } else {
+    windowTracker.stop();
+  }
+}
+
+// Applies the profile matching the window, and its scan region; without a profile each app
+// scans the region last chosen for it
+function useProfileFor(target: WindowSelectedData): void {
+  const profile = profileStore.match(target.appName, target.windowTitle);
+  if (profile?.id !== activeProfile?.id) {
+    console.log(profile ? `Using profile ${profile.name}` : 'No profile for this window');
+  }
+  activeProfile = profile;
+  currentRegion = profile ? profile.region : regionStore.get(target.appName);
+  windowManager.showScanRegion(currentRegion);
+  applyActiveSettings();
+  notifyProfilesChanged();
+}
+
+// Switches profiles when the tracked window now matches a different one, and re-scans with it
+function rematchProfile(): void {
+  if (!currentTarget) {
+    return;
+  }
+  const profile = profileStore.match(currentTarget.appName, currentTarget.windowTitle);
+  if (profile?.id === activeProfile?.id) {
+    return;
+  }
+  useProfileFor(currentTarget);
+  if (scanWatcher.isActive()) {
+    scanWatcher.trigger();
+  }
+}
+
+// Passes what profiles can change on after the global settings or the active profile changed
+function applyActiveSettings(): void {
+  const previous = activeSettings;
+  activeSettings = profileSettings(settingsStore.get(), activeProfile);
+  scanWatcher.setInterval(activeSettings.watch.intervalMs);
+  windowManager.applyOverlaySettings(activeSettings);
+  windowManager.setTranslationEnabled(activeProfile?.translate === true);
+  if (JSON.stringify(activeSettings.noiseFilter) !== JSON.stringify(previous.noiseFilter)) {
+    updateReadingPanel();
+  }
+  windowManager.notifySettingsChanged(activeSettings);
+}
+
+function profilesState(): ProfilesState {
+  return {
+    profiles: profileStore.list(),
+    activeId: activeProfile?.id ?? null,
+    target: currentTarget && { appName: currentTarget.appName, windowTitle: currentTarget.windowTitle }
+  };
+}
+
+function notifyProfilesChanged(): void {
+  windowManager.notifyProfilesChanged(profilesState());
+}
+
+// Let the user drag the scan region on the overlay; the result arrives as 'region-selected'
+function selectRegion(): void {
+  if (!currentTarget) {
+    windowManager.showOverlay();
+    windowManager.showError('Pick a window first');
+    return;
+  }
+  if (currentTarget.bounds) {
+    windowManager.positionOverlay(currentTarget.bounds);
+  }
+  windowManager.startRegionSelection();
+}
+
+// Hide overlay and refocus target app if it was the previous app
+function hideOverlay(): void {
+  windowManager.hideOverlay();
+  windowManager.focusPreviousIfTarget();
+}
+
+function exportCurrentEntry(): void {
+  if (currentEntry) {
+    exportEntry(currentEntry).catch((err) => {
+      console.error('Export failed:', err);
+      windowManager.showError('Export failed: ' + (err instanceof Error ? err.message : String(err)));
+    });
+  }
+}
+
+// What each configurable shortcut does; the keys come from settings.shortcuts
+const SHORTCUT_ACTIONS: Record<keyof ShortcutSettings, { label: string; run: () => void }> = {
+  scan: { label: 'Scan window', run: () => { scanTarget().catch(() => {}); } },
+  // Abort a running scan or window picker, and leave watch mode
+  cancel: {
+    label: 'Cancel scan',
+    run: () => {
+      console.log('Cancelling OCR requests');
+      if (watchedWindowId !== null) {
+        watchedTargets.delete(watchedWindowId);
       }
-    } catch (err) {
-      console.error('Window picker failed:', err);
-      const errorMsg = err instanceof Error ? err.message : 'Failed to select window';
-      // Don't show error for user-cancelled selection
-      if (!errorMsg.includes('cancelled')) {
-        windowManager.showError(errorMsg);
+      stopWatching();
+      ocrEngine.cancel();
+    }
+  },
+  pick: { label: 'Pick window', run: () => { pickTarget().catch(() => {}); } },
+  // Copy the text of the last scan in reading order
+  copyText: {
+    label: 'Copy scanned text',
+    run: () => {
+      if (currentEntry) {
+        clipboard.writeText(layoutText(visibleData(currentEntry.data)));
       }
     }
-  });
+  },
+  exportScan: { label: 'Export scan', run: exportCurrentEntry },
+  toggleOverlay: { label: 'Toggle overlay', run: () => windowManager.toggleOverlay() },
+  hideOverlay: { label: 'Hide overlay', run: hideOverlay },
+  history: { label: 'Scan history', run: () => windowManager.openHistoryWindow() },
+  toggleWatch: { label: 'Toggle watch mode', run: toggleWatch },
+  selectRegion: { label: 'Select scan region', run: selectRegion },
+  navigate: { label: 'Navigate boxes with the keyboard', run: () => windowManager.startKeyboardNavigation() },
+  readingPanel: { label: 'Toggle reading panel', run: () => windowManager.toggleReadingPanel() },
+  settings: { label: 'Settings', run: () => windowManager.openSettingsWindow() },
+  yomitanSettings: { label: 'Yomitan settings', run: openYomitanSettings }
+};
 
-  // Cmd+Shift+H: Toggle overlay visibility
-  globalShortcut.register('CommandOrControl+Shift+H', () => {
-    windowManager.toggleOverlay();
-  });
+// Accelerators that could not be registered, reported back to the settings window
+let shortcutErrors: SettingsError[] = [];
 
-  // Escape: Hide overlay and refocus target app if it was the previous app
-  globalShortcut.register('Escape', () => {
-    windowManager.hideOverlay();
-    windowManager.focusPreviousIfTarget();
+function registerShortcuts(shortcuts: ShortcutSettings): void {
+  globalShortcut.unregisterAll();
+  shortcutErrors = [];
+
+  for (const key of Object.keys(SHORTCUT_ACTIONS) as (keyof ShortcutSettings)[]) {
+    const accelerator = shortcuts[key];
+    const fieldPath = `shortcuts.${key}`;
+    try {
+      // register() returns false when another app already owns the accelerator
+      if (!globalShortcut.register(accelerator, SHORTCUT_ACTIONS[key].run)) {
+        shortcutErrors.push({ path: fieldPath, message: `${accelerator} is already in use` });
+      }
+    } catch {
+      shortcutErrors.push({ path: fieldPath, message: `${accelerator} is not a valid shortcut` });
+    }
+  }
+
+  for (const error of shortcutErrors) {
+    console.error(`Shortcut ${error.path}: ${error.message}`);
+  }
+}
+
+function configureTextOutput(settings: Settings): void {
+  textOutput.configure(settings.output).catch((err) => {
+    console.error('Failed to start texthooker WebSocket:', err);
+    windowManager.showError(`Texthooker WebSocket could not listen on port ${settings.output.websocket.port}: ` +
+      (err instanceof Error ? err.message : String(err)));
   });
+}
 
-  // Cmd+Shift+Y: Open Yomitan settings
-  globalShortcut.register('CommandOrControl+Shift+Y', () => {
-    openYomitanSettings();
+function configureControlApi(settings: Settings): void {
+  // Enabling the API without a token creates one; saving it comes back here through 'changed'
+  if (settings.api.enabled && !settings.api.token) {
+    settingsStore.update({ api: { token: generateToken() } });
+    return;
+  }
+  controlServer.configure(settings.api).catch((err) => {
+    console.error('Failed to start control API:', err);
+    windowManager.showError(`Control API could not listen on port ${settings.api.port}: ` +
+      (err instanceof Error ? err.message : String(err)));
   });
 }
 
+function applySettings(settings: Settings, previous: Settings): void {
+  ocrEngine.setTimeouts(settings.timeouts);
+  windowTracker.setInterval(settings.tracking.intervalMs);
+  if (settings.tracking.enabled !== previous.tracking.enabled && currentTarget) {
+    trackTarget(currentTarget);
+  }
+  if (JSON.stringify(settings.shortcuts) !== JSON.stringify(previous.shortcuts)) {
+    registerShortcuts(settings.shortcuts);
+  }
+  windowManager.applyReadingPanelSettings(settings);
+  if (JSON.stringify(settings.translation) !== JSON.stringify(previous.translation)) {
+    translator.clear();
+  }
+  if (JSON.stringify(settings.captures) !== JSON.stringify(previous.captures)) {
+    captureCache.setLimits(captureLimits(settings.captures));
+  }
+  applyActiveSettings();
+  configureTextOutput(settings);
+  configureControlApi(settings);
+  if (settings.engine !== previous.engine) {
+    console.log(`OCR engine set to ${settings.engine}, takes effect after a restart`);
+  }
+}
+
 // Handle IPC from renderer
 ipcMain.handle('get-ocr-results', () => {
-  // Return cached results if needed
-  return null;
+  return currentEntry?.data ?? null;
+});
+
+ipcMain.handle('settings-get', () => {
+  return activeSettings;
+});
+
+// While a profile is active, the sections it covers are saved to the profile instead
+ipcMain.handle('settings-update', (_event, patch: DeepPartial<Settings>) => {
+  const errors: SettingsError[] = [];
+  let globalPatch: Record<string, unknown> = patch;
+  if (activeProfile && typeof patch === 'object' && patch !== null) {
+    const profilePatch: Record<string, unknown> = {};
+    globalPatch = { ...patch };
+    for (const section of PROFILE_SECTIONS) {
+      if (section in globalPatch) {
+        profilePatch[section] = globalPatch[section];
+        delete globalPatch[section];
+      }
+    }
+    if (Object.keys(profilePatch).length > 0) {
+      const result = profileStore.updateSettings(activeProfile.id, profilePatch);
+      activeProfile = result.profile;
+      errors.push(...result.errors);
+      applyActiveSettings();
+    }
+  }
+  errors.push(...settingsStore.update(globalPatch).errors);
+  return { settings: activeSettings, errors: [...errors, ...shortcutErrors] };
+});
+
+// Profiles keep their own overrides
+ipcMain.handle('settings-reset', () => {
+  settingsStore.reset();
+  return { settings: activeSettings, errors: shortcutErrors };
+});
+
+// A line or block from the overlay or reading panel. Nothing is sent anywhere unless the
+// profile of the picked window turned translation on.
+ipcMain.handle('translate-text', async (_event, text: string) => {
+  if (!activeProfile?.translate) {
+    return { error: 'Translation is off for this window. Turn it on in its profile in the settings.' };
+  }
+  const { translation } = settingsStore.get();
+  try {
+    const provider = createTranslationProvider(translation);
+    return { text: await translator.translate(provider, text, translation.source, translation.target) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+});
+
+// Scans the picked window once with the current filters and returns the image the engine
+// recognized, for tuning the filters; the overlay and history are left alone
+ipcMain.handle('preprocess-preview', async () => {
+  if (!currentTarget) {
+    return { error: 'Pick a window first' };
+  }
+  const previewPath = path.join(app.getPath('temp'), `ocr-preview-${process.pid}-${Date.now()}.png`);
+  try {
+    const data = await ocrEngine.scan({ ...currentScanOptions(), previewTo: previewPath });
+    const image = `data:image/png;base64,${fs.readFileSync(previewPath).toString('base64')}`;
+    return { image, boxes: visibleData(data).observations.length };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    fs.promises.unlink(previewPath).catch(() => {});
+  }
+});
+
+ipcMain.handle('profiles-get', () => {
+  return profilesState();
+});
+
+// A profile for the picked window, starting from the settings and region in use for it now
+ipcMain.handle('profiles-create', (_event, windowTitle: string) => {
+  if (!currentTarget?.appName) {
+    return null;
+  }
+  const profile = profileStore.create(currentTarget.appName, windowTitle.trim(), currentRegion, settingsForProfile(activeSettings));
+  useProfileFor(currentTarget);
+  return profile;
+});
+
+ipcMain.handle('profiles-update', (_event, id: string, changes: ProfileChanges) => {
+  const profile = profileStore.edit(id, changes);
+  if (currentTarget) {
+    useProfileFor(currentTarget);
+  }
+  return profile;
+});
+
+ipcMain.handle('profiles-delete', (_event, id: string) => {
+  profileStore.remove(id);
+  if (currentTarget) {
+    useProfileFor(currentTarget);
+  } else {
+    notifyProfilesChanged();
+  }
+});
+
+ipcMain.handle('profiles-export', async () => {
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export Profiles',
+    defaultPath: 'ocr-profiles.json',
+    filters: [{ name: 'Profiles', extensions: ['json'] }]
+  });
+  if (canceled || !filePath) {
+    return false;
+  }
+  fs.writeFileSync(filePath, profileStore.exportProfiles());
+  console.log(`Exported ${profileStore.list().length} profiles to ${filePath}`);
+  return true;
+});
+
+// Profiles in the file replace the ones for the same windows; problems with single settings
+// are reported and the rest of the profile is still imported
+ipcMain.handle('profiles-import', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Import Profiles',
+    filters: [{ name: 'Profiles', extensions: ['json'] }],
+    properties: ['openFile']
+  });
+  if (canceled || filePaths.length === 0) {
+    return { imported: 0, errors: [] };
+  }
+  let json: string;
+  try {
+    json = fs.readFileSync(filePaths[0], 'utf8');
+  } catch (err) {
+    return { imported: 0, errors: [{ path: '(file)', message: err instanceof Error ? err.message : String(err) }] };
+  }
+  const { imported, errors } = profileStore.importProfiles(json);
+  console.log(`Imported ${imported.length} profiles from ${filePaths[0]}`);
+  if (currentTarget) {
+    useProfileFor(currentTarget);
+  } else {
+    notifyProfilesChanged();
+  }
+  return { imported: imported.length, errors };
+});
+
+// A region dragged on the overlay, or null to scan the whole window again
+ipcMain.handle('region-selected', (_event, region: ScanRegion | null) => {
+  currentRegion = region;
+  if (activeProfile) {
+    activeProfile = profileStore.setRegion(activeProfile.id, region);
+  } else {
+    regionStore.set(currentTarget?.appName ?? null, region);
+  }
+  windowManager.showScanRegion(region);
+  console.log(region ? 'Scan region set' : 'Scan region cleared');
+
+  if (scanWatcher.isActive()) {
+    scanWatcher.trigger();
+  } else {
+    scanTarget().catch(() => {});
+  }
+});
+
+// A box edited in the overlay. `expected` is the text the overlay showed, so an edit started
+// before a watch-mode re-scan replaced the boxes is not applied to a different one.
+ipcMain.handle('correct-text', (_event, index: number, expected: string, text: string): TextObservation | null => {
+  const obs = currentEntry?.data.observations[index];
+  if (!currentEntry || !obs || obs.text !== expected) {
+    return null;
+  }
+
+  const original = obs.originalText ?? obs.text;
+  // Boxes are single lines; clearing the text goes back to what the engine read
+  const corrected = text.replace(/\s*\n\s*/g, ' ').trim() || original;
+  const appName = currentEntry.appName;
+  // Undo the saved correction that produced the old text before recording the new one
+  const previousRule = obs.originalText !== undefined ? correctionRule(original, obs.text) : null;
+  if (previousRule) {
+    correctionStore.remove(appName, previousRule.from);
+  }
+  const rule = correctionRule(original, corrected);
+  if (rule) {
+    correctionStore.add(appName, rule);
+  }
+
+  const updated: TextObservation = { ...obs, text: corrected };
+  if (updated.text === original) {
+    delete updated.originalText;
+  } else {
+    updated.originalText = original;
+  }
+  const observations = currentEntry.data.observations.map((item, i) => (i === index ? updated : item));
+  currentEntry = { ...currentEntry, data: { ...currentEntry.data, observations } };
+  historyStore.update(currentEntry, visibleData(currentEntry.data));
+  windowManager.notifyHistoryChanged();
+  updateReadingPanel();
+  console.log(`Corrected "${original}" to "${updated.text}"`);
+  return updated;
+});
+
+// A line or block of the overlay sent to Anki as a sentence card, with the boxes cut out of the
+// capture. `expected` is the text the overlay showed, as for corrections.
+ipcMain.handle('mine-observations', async (_event, indices: number[], expected: string) => {
+  const { anki } = settingsStore.get();
+  if (!anki.enabled) {
+    return { error: 'Anki mining is off. Turn it on under "Anki" in the settings.' };
+  }
+  const entry = currentEntry;
+  const sentence = entry ? layoutTextFor(entry.data, new Set(indices)) : '';
+  if (!entry || !sentence || sentence !== expected) {
+    return { error: 'The scan changed, the card was not added' };
+  }
+
+  const picture = cropCapture(entry.data, indices)?.toPNG() ?? null;
+  try {
+    const note = buildNote(anki, {
+      sentence,
+      picture,
+      appName: entry.appName,
+      windowTitle: entry.windowTitle,
+      timestamp: Date.now()
+    });
+    const noteId = await new AnkiConnect(anki.url, anki.apiKey).addNote(note);
+    console.log(`Added Anki note ${noteId}`);
+    return { noteId, picture: picture !== null };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+});
+
+// Each box cut out of the capture next to the text read from it, for finding out why a box was
+// misread
+ipcMain.handle('capture-crops', (_event, indices: number[]) => {
+  const data = currentEntry?.data;
+  if (!data?.capture || !captureCache.has(data.capture)) {
+    return { error: 'The screenshot of this scan was not kept. Turn on "Keep screenshots" in the settings.' };
+  }
+  const crops = indices
+    .filter((index) => data.observations[index] !== undefined)
+    .flatMap((index) => {
+      const image = cropCapture(data, [index]);
+      const { text, confidence } = data.observations[index];
+      return image ? [{ index, image: image.toDataURL(), text, confidence }] : [];
+    });
+  return crops.length > 0 ? { crops } : { error: 'Could not cut the boxes out of the screenshot' };
+});
+
+// Yomitan lookup at the overlay's keyboard caret
+ipcMain.on('lookup-at', (_event, x: number, y: number) => {
+  windowManager.lookupAt(x, y, settingsStore.get().navigation.lookupModifier);
+});
+
+// Hover links between the reading panel's lines and the overlay's boxes. The panel also shows
+// earlier scans, whose boxes are no longer on the overlay.
+ipcMain.on('panel-hover', (_event, entryId: string, indices: number[]) => {
+  windowManager.highlightBoxes(entryId === currentEntry?.id ? indices : []);
+});
+
+ipcMain.on('overlay-hover', (_event, index: number | null) => {
+  if (currentEntry) {
+    windowManager.highlightTranscript(currentEntry.id, index);
+  }
+});
+
+// Typing a correction needs keyboard focus, which the overlay does not take when shown
+ipcMain.on('focus-overlay', () => {
+  windowManager.focusOverlay();
+});
+
+ipcMain.handle('history-list', (_event, query?: string) => {
+  return historyStore.list(query);
+});
+
+ipcMain.handle('history-get', (_event, id: string) => {
+  return historyStore.get(id);
+});
+
+ipcMain.handle('history-open-overlay', (_event, id: string) => {
+  const entry = historyStore.get(id);
+  if (!entry) {
+    return false;
+  }
+  showEntryInOverlay(entry);
+  return true;
+});
+
+ipcMain.handle('history-open-reader', (_event, id: string) => {
+  const entry = historyStore.get(id);
+  if (!entry) {
+    return false;
+  }
+  windowManager.showReader(describeHistoryEntry(entry), visibleData(entry.data));
+  return true;
+});
+
+ipcMain.handle('history-export', (_event, id: string) => {
+  const entry = historyStore.get(id);
+  return entry ? exportEntry(entry) : false;
+});
+
+ipcMain.handle('history-delete', (_event, id: string) => {
+  historyStore.delete(id);
 });
 
 app.whenReady().then(init);
 
 app.on('will-quit', () => {
   globalShortcut.unregisterAll();
-  ocrBridge?.stop();
+  scanWatcher?.stop();
+  windowTracker?.stop();
+  textOutput.stop();
+  controlServer.stop();
+  ocrEngine?.stop();
   windowManager?.destroy();
 });
 
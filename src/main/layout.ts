@@ -0,0 +1,298 @@
+import { OCRData, TextObservation } from './ocr-engine';
+
+export type TextOrientation = 'horizontal' | 'vertical';
+
+export interface LayoutLine {
+  orientation: TextOrientation;
+  // Indices into OCRData.observations, in reading order
+  observations: number[];
+}
+
+export interface LayoutBlock {
+  orientation: TextOrientation;
+  lines: LayoutLine[];
+}
+
+export interface DocumentLayout {
+  blocks: LayoutBlock[];
+  // Every observation index exactly once, in reading order
+  order: number[];
+  // Orientation of each observation, indexed like OCRData.observations
+  orientations: TextOrientation[];
+}
+
+// Axis-aligned box in image pixels, top-left origin
+export interface PixelBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// A box expressed along the reading direction: 'main' runs along a line,
+// 'cross' runs from one line to the next. For vertical text the cross axis is
+// the negated x axis so that right-to-left columns sort in ascending order.
+interface FlowBox {
+  index: number;
+  mainStart: number;
+  mainEnd: number;
+  crossStart: number;
+  crossEnd: number;
+}
+
+interface FlowGroup {
+  boxes: FlowBox[];
+  mainStart: number;
+  mainEnd: number;
+  crossStart: number;
+  crossEnd: number;
+}
+
+interface FlowBlock extends FlowGroup {
+  orientation: TextOrientation;
+  lines: FlowGroup[];
+}
+
+// Tall boxes with at least this height/width ratio are treated as vertical text
+const VERTICAL_ASPECT = 1.5;
+// Max gap between fragments of the same line, in line thicknesses
+const LINE_GAP = 1.5;
+// Max gap between consecutive lines of the same block, in line thicknesses
+const BLOCK_GAP = 1.0;
+
+export function pixelBox(obs: TextObservation, imageWidth: number, imageHeight: number): PixelBox {
+  const corners = [obs.topLeft, obs.topRight, obs.bottomRight, obs.bottomLeft];
+  const xs = corners.map((c) => c.x * imageWidth);
+  // Vision points have a bottom-left origin
+  const ys = corners.map((c) => (1 - c.y) * imageHeight);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys)
+  };
+}
+
+// Orientation of a single observation, or null when it could be either (single characters)
+export function detectOrientation(
+  obs: TextObservation,
+  imageWidth: number,
+  imageHeight: number
+): TextOrientation | null {
+  // A baseline turned by roughly 90 degrees is text running top to bottom
+  const dx = (obs.topRight.x - obs.topLeft.x) * imageWidth;
+  const dy = (obs.topRight.y - obs.topLeft.y) * imageHeight;
+  const angle = Math.abs(Math.atan2(dy, dx) * (180 / Math.PI));
+  if (angle > 60 && angle < 120) {
+    return 'vertical';
+  }
+
+  if ([...obs.text.trim()].length < 2) {
+    return null;
+  }
+
+  // Upright box: a tall, narrow run of characters is a tategaki column
+  const box = pixelBox(obs, imageWidth, imageHeight);
+  return box.bottom - box.top > (box.right - box.left) * VERTICAL_ASPECT ? 'vertical' : 'horizontal';
+}
+
+function isCJK(char: string): boolean {
+  return /[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]/.test(char);
+}
+
+// Join text fragments of one line; CJK fragments are joined without spaces
+export function joinText(parts: string[]): string {
+  let result = '';
+  for (const part of parts) {
+    if (!part) {
+      continue;
+    }
+    if (result && !(isCJK(result[result.length - 1]) && isCJK(part[0]))) {
+      result += ' ';
+    }
+    result += part;
+  }
+  return result;
+}
+
+function toFlowBox(index: number, box: PixelBox, orientation: TextOrientation): FlowBox {
+  if (orientation === 'horizontal') {
+    return { index, mainStart: box.left, mainEnd: box.right, crossStart: box.top, crossEnd: box.bottom };
+  }
+  return { index, mainStart: box.top, mainEnd: box.bottom, crossStart: -box.right, crossEnd: -box.left };
+}
+
+function toPixelBox(group: FlowGroup, orientation: TextOrientation): PixelBox {
+  if (orientation === 'horizontal') {
+    return { left: group.mainStart, right: group.mainEnd, top: group.crossStart, bottom: group.crossEnd };
+  }
+  return { left: -group.crossEnd, right: -group.crossStart, top: group.mainStart, bottom: group.mainEnd };
+}
+
+function thickness(group: { crossStart: number; crossEnd: number }): number {
+  return group.crossEnd - group.crossStart;
+}
+
+function extend(group: FlowGroup, other: { mainStart: number; mainEnd: number; crossStart: number; crossEnd: number }): void {
+  group.mainStart = Math.min(group.mainStart, other.mainStart);
+  group.mainEnd = Math.max(group.mainEnd, other.mainEnd);
+  group.crossStart = Math.min(group.crossStart, other.crossStart);
+  group.crossEnd = Math.max(group.crossEnd, other.crossEnd);
+}
+
+// Merge fragments that sit on the same line and are close along it
+function groupLines(boxes: FlowBox[]): FlowGroup[] {
+  const lines: FlowGroup[] = [];
+  const sorted = [...boxes].sort((a, b) => a.mainStart - b.mainStart || a.crossStart - b.crossStart);
+
+  for (const box of sorted) {
+    const line = lines.find((candidate) => {
+      const overlap = Math.min(candidate.crossEnd, box.crossEnd) - Math.max(candidate.crossStart, box.crossStart);
+      const gap = Math.max(box.mainStart - candidate.mainEnd, candidate.mainStart - box.mainEnd);
+      return overlap >= 0.5 * Math.min(thickness(candidate), thickness(box)) &&
+        gap <= LINE_GAP * Math.max(thickness(candidate), thickness(box));
+    });
+
+    if (line) {
+      line.boxes.push(box);
+      extend(line, box);
+    } else {
+      lines.push({
+        boxes: [box],
+        mainStart: box.mainStart,
+        mainEnd: box.mainEnd,
+        crossStart: box.crossStart,
+        crossEnd: box.crossEnd
+      });
+    }
+  }
+
+  for (const line of lines) {
+    line.boxes.sort((a, b) => a.mainStart - b.mainStart);
+  }
+  return lines;
+}
+
+// Stack consecutive lines that overlap along the reading direction into blocks
+function groupBlocks(lines: FlowGroup[], orientation: TextOrientation): FlowBlock[] {
+  const blocks: FlowBlock[] = [];
+  const sorted = [...lines].sort((a, b) => a.crossStart - b.crossStart || a.mainStart - b.mainStart);
+
+  for (const line of sorted) {
+    const block = blocks.find((candidate) => {
+      const last = candidate.lines[candidate.lines.length - 1];
+      const gap = line.crossStart - last.crossEnd;
+      const averageThickness = (thickness(last) + thickness(line)) / 2;
+      const mainOverlap = Math.min(candidate.mainEnd, line.mainEnd) - Math.max(candidate.mainStart, line.mainStart);
+      return gap <= BLOCK_GAP * averageThickness && gap > -0.5 * averageThickness && mainOverlap > 0;
+    });
+
+    if (block) {
+      block.lines.push(line);
+      block.boxes.push(...line.boxes);
+      extend(block, line);
+    } else {
+      blocks.push({
+        orientation,
+        lines: [line],
+        boxes: [...line.boxes],
+        mainStart: line.mainStart,
+        mainEnd: line.mainEnd,
+        crossStart: line.crossStart,
+        crossEnd: line.crossEnd
+      });
+    }
+  }
+  return blocks;
+}
+
+// Blocks are read in bands from top to bottom. Blocks side by side in a band are read
+// left to right, or right to left when most of the text is vertical (manga, tategaki).
+function orderBlocks(blocks: FlowBlock[], dominant: TextOrientation): FlowBlock[] {
+  const positioned = blocks
+    .map((block) => ({ block, box: toPixelBox(block, block.orientation) }))
+    .sort((a, b) => a.box.top - b.box.top);
+
+  const bands: { bottom: number; members: typeof positioned }[] = [];
+  for (const entry of positioned) {
+    const band = bands[bands.length - 1];
+    if (band && entry.box.top < band.bottom) {
+      band.members.push(entry);
+      band.bottom = Math.max(band.bottom, entry.box.bottom);
+    } else {
+      bands.push({ bottom: entry.box.bottom, members: [entry] });
+    }
+  }
+
+  return bands.flatMap((band) =>
+    band.members
+      .sort((a, b) => (dominant === 'vertical' ? b.box.right - a.box.right : a.box.left - b.box.left))
+      .map((entry) => entry.block)
+  );
+}
+
+export function analyzeLayout(data: OCRData): DocumentLayout {
+  const { imageWidth, imageHeight, observations } = data;
+
+  const detected = observations.map((obs) => detectOrientation(obs, imageWidth, imageHeight));
+  const verticalCount = detected.filter((o) => o === 'vertical').length;
+  const horizontalCount = detected.filter((o) => o === 'horizontal').length;
+  const dominant: TextOrientation = verticalCount > horizontalCount ? 'vertical' : 'horizontal';
+  // Ambiguous single characters follow the rest of the page
+  const orientations = detected.map((o) => o ?? dominant);
+
+  const blocks: FlowBlock[] = [];
+  for (const orientation of ['horizontal', 'vertical'] as TextOrientation[]) {
+    const boxes = observations
+      .map((obs, index) => ({ obs, index }))
+      .filter(({ index }) => orientations[index] === orientation)
+      .map(({ obs, index }) => toFlowBox(index, pixelBox(obs, imageWidth, imageHeight), orientation));
+    blocks.push(...groupBlocks(groupLines(boxes), orientation));
+  }
+
+  const layoutBlocks: LayoutBlock[] = orderBlocks(blocks, dominant).map((block) => ({
+    orientation: block.orientation,
+    lines: block.lines.map((line) => ({
+      orientation: block.orientation,
+      observations: line.boxes.map((box) => box.index)
+    }))
+  }));
+
+  return {
+    blocks: layoutBlocks,
+    order: layoutBlocks.flatMap((block) => block.lines.flatMap((line) => line.observations)),
+    orientations
+  };
+}
+
+export function withLayout(data: OCRData): OCRData {
+  return { ...data, layout: analyzeLayout(data) };
+}
+
+export function lineText(data: OCRData, line: LayoutLine): string {
+  return joinText(line.observations.map((index) => data.observations[index].text));
+}
+
+export function blockText(data: OCRData, block: LayoutBlock): string {
+  return block.lines.map((line) => lineText(data, line)).join('\n');
+}
+
+// Plain text in reading order: one line per layout line, blank line between blocks
+export function layoutText(data: OCRData, layout: DocumentLayout = data.layout ?? analyzeLayout(data)): string {
+  return layout.blocks.map((block) => blockText(data, block)).join('\n\n');
+}
+
+// Like layoutText, limited to some observations; lines and blocks left empty are dropped
+export function layoutTextFor(
+  data: OCRData,
+  indices: Set<number>,
+  layout: DocumentLayout = data.layout ?? analyzeLayout(data)
+): string {
+  return layout.blocks
+    .map((block) => block.lines
+      .map((line) => joinText(line.observations.filter((i) => indices.has(i)).map((i) => data.observations[i].text)))
+      .filter(Boolean)
+      .join('\n'))
+    .filter(Boolean)
+    .join('\n\n');
+}
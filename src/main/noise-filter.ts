@@ -0,0 +1,28 @@
+import { OCRData, TextObservation } from './ocr-engine';
+import { withLayout } from './layout';
+
+export interface NoiseFilterSettings {
+  // Smallest box size kept, in window points (the unit the overlay draws in)
+  minBoxWidth: number;
+  minBoxHeight: number;
+  // Boxes the engine is less sure about than this (0..1) are dropped
+  minConfidence: number;
+}
+
+// The overlay applies the same rule (isNoiseBox in the overlay renderer), so everything that
+// leaves the app through history, export or text output matches what the user sees.
+// Scans of image files have no window, so their sizes are compared in image pixels.
+export function isNoise(obs: TextObservation, data: OCRData, filter: NoiseFilterSettings): boolean {
+  const width = obs.boundingBox.width * (data.bounds?.width ?? data.imageWidth);
+  const height = obs.boundingBox.height * (data.bounds?.height ?? data.imageHeight);
+  return width < filter.minBoxWidth || height < filter.minBoxHeight || obs.confidence < filter.minConfidence;
+}
+
+// The scan without noise, with its layout worked out again for the remaining boxes
+export function filterOCRData(data: OCRData, filter: NoiseFilterSettings): OCRData {
+  const observations = data.observations.filter((obs) => !isNoise(obs, data, filter));
+  if (observations.length === data.observations.length) {
+    return data;
+  }
+  return withLayout({ ...data, observations });
+}
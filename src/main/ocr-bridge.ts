@@ -1,44 +1,25 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import * as path from 'path';
-import { app } from 'electron';
 import * as fs from 'fs';
+import {
+  DEFAULT_TIMEOUTS,
+  EngineCapabilities,
+  EngineTimeouts,
+  OCRData,
+  OCREngine,
+  ScanOptions,
+  TextObservation,
+  WindowBounds,
+  WindowSelectedData,
+  WindowState
+} from './ocr-engine';
+import { withImageFile } from './image-size';
 
 // Response types from Swift CLI
-export interface WindowBounds {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-export interface TextObservation {
-  text: string;
-  confidence: number;
-  boundingBox: { x: number; y: number; width: number; height: number };
-  topLeft: { x: number; y: number };
-  topRight: { x: number; y: number };
-  bottomRight: { x: number; y: number };
-  bottomLeft: { x: number; y: number };
-}
-
-export interface OCRData {
-  imageWidth: number;
-  imageHeight: number;
-  observations: TextObservation[];
-  bounds?: WindowBounds;  // Included when scan triggers a pick
-}
-
-export interface WindowSelectedData {
-  windowId: number | null;
-  appName: string | null;
-  windowTitle: string | null;
-  bounds: WindowBounds | null;
-  ownerPID: number | null;
-}
-
 export interface CLIResponse {
   type: string;
+  id?: string;  // Echo of the command's request id
   success: boolean;
   data?: {
     version?: string;
@@ -50,26 +31,113 @@ export interface CLIResponse {
     imageWidth?: number;
     imageHeight?: number;
     observations?: TextObservation[];
+    state?: WindowState['state'];
+    frontmost?: boolean;
   };
   error?: string;
 }
 
-export class OCRBridge extends EventEmitter {
+// One line of a recorded session file (JSON lines). `at` is milliseconds since start();
+// commands are what the bridge wrote, responses and raw lines what the CLI printed.
+export type SessionEvent =
+  | { spawn: string }
+  | { command: Record<string, unknown> }
+  | { response: CLIResponse }
+  | { raw: string }
+  | { exit: number | null };
+export type SessionEntry = { at: number } & SessionEvent;
+
+// How commands are scheduled while another one is still running in the CLI:
+// 'queue' runs them one after another, 'latest' cancels earlier requests of the same action
+export type ConcurrencyPolicy = 'queue' | 'latest';
+
+interface PendingRequest {
+  id: string;
+  command: { action: string; [key: string]: unknown };
+  timeoutMs: number;
+  timeoutMessage: string;
+  timer: NodeJS.Timeout | null;
+  attempts: number;
+  settled: boolean;
+  resolve: (response: CLIResponse) => void;
+  reject: (err: Error) => void;
+}
+
+export interface RestartPolicy {
+  autoRestart: boolean;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  // More than maxCrashes exits within crashWindowMs counts as a crash loop and restarting stops
+  maxCrashes: number;
+  crashWindowMs: number;
+}
+
+export interface OCRBridgeOptions {
+  policy?: ConcurrencyPolicy;
+  timeouts?: EngineTimeouts;
+  restart?: Partial<RestartPolicy>;
+  // Passed to the CLI, e.g. the script when cliPath is node running the fake CLI
+  args?: string[];
+  // Session file that every start() rewrites with the traffic to and from the CLI
+  recordTo?: string;
+}
+
+// Window state is a quick lookup in the CLI; only time spent queued behind a scan adds to it
+const WINDOW_STATE_TIMEOUT_MS = 2000;
+
+const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  autoRestart: true,
+  initialBackoffMs: 500,
+  maxBackoffMs: 30000,
+  maxCrashes: 5,
+  crashWindowMs: 60000
+};
+
+// Vision framework engine backed by the Swift ocrcli (macOS only)
+export class OCRBridge extends EventEmitter implements OCREngine {
+  readonly name = 'vision';
+  readonly capabilities: EngineCapabilities = {
+    windowCapture: true,
+    imageScan: true,
+    boxes: 'line',
+    confidence: true
+  };
+
   private process: ChildProcess | null = null;
   private buffer: string = '';
   private ready: boolean = false;
   private cliPath: string;
+  private args: string[];
+  private recordTo: string | null;
+  private recordStart: number = 0;
+  private policy: ConcurrencyPolicy;
+  private nextRequestId: number = 1;
+  private activeRequest: PendingRequest | null = null;
+  private queue: PendingRequest[] = [];
+  private restartPolicy: RestartPolicy;
+  // Only supervise once the first handshake succeeded; a CLI that never starts is a setup problem
+  private supervising: boolean = false;
+  private stopping: boolean = false;
+  private crashTimes: number[] = [];
+  private restartTimer: NodeJS.Timeout | null = null;
+  private timeouts: EngineTimeouts;
 
-  constructor(cliPath?: string) {
+  constructor(cliPath?: string, options: OCRBridgeOptions = {}) {
     super();
+    this.policy = options.policy ?? 'queue';
+    this.restartPolicy = { ...DEFAULT_RESTART_POLICY, ...options.restart };
+    this.timeouts = options.timeouts ?? DEFAULT_TIMEOUTS;
+    this.args = options.args ?? [];
+    this.recordTo = options.recordTo ?? null;
     if (cliPath) {
       this.cliPath = cliPath;
     } else {
-      // Try packaged app location first, then development location
-      const packagedPath = path.join(process.resourcesPath, 'ocrcli');
+      // Try packaged app location first, then development location.
+      // resourcesPath only exists inside Electron, not when run from the batch CLI.
+      const packagedPath = process.resourcesPath ? path.join(process.resourcesPath, 'ocrcli') : null;
       const devPath = path.join(__dirname, '../../build/ocrcli');
 
-      if (fs.existsSync(packagedPath)) {
+      if (packagedPath && fs.existsSync(packagedPath)) {
         this.cliPath = packagedPath;
       } else {
         this.cliPath = devPath;
@@ -78,50 +146,143 @@ export class OCRBridge extends EventEmitter {
     console.log('OCR CLI path:', this.cliPath);
   }
 
-  start(): Promise<void> {
+  async start(): Promise<void> {
+    this.stopping = false;
+    this.supervising = false;
+    this.crashTimes = [];
+    if (this.recordTo) {
+      this.recordStart = Date.now();
+      fs.writeFileSync(this.recordTo, '');
+    }
+    await this.spawnProcess();
+    this.supervising = true;
+  }
+
+  // Spawn the CLI and wait for its ready handshake
+  private spawnProcess(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.process = spawn(this.cliPath, [], {
+      const child = spawn(this.cliPath, this.args, {
         stdio: ['pipe', 'pipe', 'pipe']
       });
+      this.process = child;
+      this.record({ spawn: this.cliPath });
+      this.buffer = '';
 
-      this.process.stdout?.on('data', (data: Buffer) => {
+      child.stdout?.on('data', (data: Buffer) => {
         this.buffer += data.toString();
         this.processBuffer();
       });
 
-      this.process.stderr?.on('data', (data: Buffer) => {
+      child.stderr?.on('data', (data: Buffer) => {
         console.error('OCR CLI stderr:', data.toString());
       });
 
-      this.process.on('error', (err) => {
-        this.emit('error', err);
+      // Writing to a CLI that just died raises EPIPE on stdin; the close handler deals with the exit
+      child.stdin?.on('error', (err) => {
+        console.error('OCR CLI stdin error:', err.message);
+      });
+
+      child.on('error', (err) => {
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', err);
+        }
         reject(err);
       });
 
-      this.process.on('close', (code) => {
-        this.ready = false;
-        this.emit('close', code);
+      child.on('close', (code) => {
+        this.record({ exit: code });
+        reject(new Error(`OCR CLI exited with code ${code} before becoming ready`));
+        this.handleExit(child, code);
       });
 
       // Wait for ready message
       const onReady = (response: CLIResponse) => {
         if (response.type === 'ready') {
+          clearTimeout(readyTimeout);
           this.ready = true;
           this.removeListener('response', onReady);
           resolve();
+          this.pump();
         }
       };
       this.on('response', onReady);
 
-      // Timeout after 5 seconds
-      setTimeout(() => {
+      const readyTimeout = setTimeout(() => {
+        this.removeListener('response', onReady);
         if (!this.ready) {
           reject(new Error('CLI did not become ready in time'));
         }
-      }, 5000);
+      }, this.timeouts.startupMs);
     });
   }
 
+  private handleExit(child: ChildProcess, code: number | null): void {
+    // Exits of processes we already let go of (stop(), replaced after a restart) are not crashes
+    if (this.process !== child) {
+      return;
+    }
+    this.process = null;
+    this.ready = false;
+    this.emit('close', code);
+
+    if (!this.supervising || this.stopping || !this.restartPolicy.autoRestart) {
+      this.rejectAll(new Error('OCR CLI exited'));
+      return;
+    }
+
+    // The command that was running when the CLI died is retried once if it is a scan,
+    // picks are not since that would pop the picker up again unprompted
+    const active = this.activeRequest;
+    if (active) {
+      this.activeRequest = null;
+      if (active.timer) {
+        clearTimeout(active.timer);
+        active.timer = null;
+      }
+      if ((active.command.action === 'scan' || active.command.action === 'scanImage') && active.attempts < 2) {
+        this.queue.unshift(active);
+      } else {
+        this.settle(active, new Error('OCR engine crashed while handling the request'));
+      }
+    }
+
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter((time) => now - time < this.restartPolicy.crashWindowMs);
+    this.crashTimes.push(now);
+
+    if (this.crashTimes.length > this.restartPolicy.maxCrashes) {
+      console.error(`OCR CLI crashed ${this.crashTimes.length} times, giving up`);
+      this.supervising = false;
+      this.rejectAll(new Error('OCR engine keeps crashing, automatic restart stopped'));
+      this.emit('crash-loop', { crashes: this.crashTimes.length, windowMs: this.restartPolicy.crashWindowMs });
+      return;
+    }
+
+    const attempt = this.crashTimes.length;
+    const delayMs = Math.min(
+      this.restartPolicy.initialBackoffMs * 2 ** (attempt - 1),
+      this.restartPolicy.maxBackoffMs
+    );
+    console.error(`OCR CLI exited with code ${code}, restarting in ${delayMs}ms (attempt ${attempt})`);
+    this.emit('restarting', { attempt, delayMs, code });
+    this.restartTimer = setTimeout(() => this.restart(), delayMs);
+  }
+
+  private async restart(): Promise<void> {
+    this.restartTimer = null;
+    try {
+      await this.spawnProcess();
+      console.log('OCR CLI restarted');
+      this.emit('restarted');
+    } catch (err) {
+      console.error('OCR CLI restart failed:', err);
+      // A process that is alive but never became ready is killed, its exit schedules the next attempt
+      if (this.process && this.process.exitCode === null && this.process.signalCode === null) {
+        this.process.kill();
+      }
+    }
+  }
+
   private processBuffer(): void {
     const lines = this.buffer.split('\n');
     this.buffer = lines.pop() || '';
@@ -130,100 +291,269 @@ export class OCRBridge extends EventEmitter {
       if (line.trim()) {
         try {
           const response = JSON.parse(line) as CLIResponse;
+          this.record({ response });
           this.emit('response', response);
+          this.handleResponse(response);
         } catch (e) {
+          this.record({ raw: line });
           console.error('Failed to parse CLI response:', line);
         }
       }
     }
   }
 
-  private sendCommand(command: object): void {
+  private sendCommand(command: Record<string, unknown>): void {
     if (!this.process?.stdin) {
       throw new Error('CLI not started');
     }
+    this.record({ command });
     this.process.stdin.write(JSON.stringify(command) + '\n');
   }
 
-  pick(): Promise<WindowSelectedData> {
+  private record(event: SessionEvent): void {
+    if (this.recordTo) {
+      fs.appendFileSync(this.recordTo, JSON.stringify({ at: Date.now() - this.recordStart, ...event }) + '\n');
+    }
+  }
+
+  // Queue a command; resolves with its final reply, matched by request id
+  private request(
+    command: { action: string; [key: string]: unknown },
+    timeoutMs: number,
+    timeoutMessage: string
+  ): Promise<CLIResponse> {
+    if (this.policy === 'latest') {
+      this.cancelMatching((req) => req.command.action === command.action);
+    }
+
+    if (!this.process && !this.restartTimer) {
+      return Promise.reject(new Error('OCR engine is not running'));
+    }
+
     return new Promise((resolve, reject) => {
-      // Timeout for picker (60 seconds - user may take time to choose)
-      const timeout = setTimeout(() => {
-        this.removeListener('response', handler);
-        reject(new Error('Window selection timed out'));
-      }, 60000);
-
-      const handler = (response: CLIResponse) => {
-        if (response.type === 'pick') {
-          clearTimeout(timeout);
-          this.removeListener('response', handler);
-          if (response.success && response.data) {
-            resolve({
-              windowId: response.data.windowId ?? null,
-              appName: response.data.appName ?? null,
-              windowTitle: response.data.windowTitle ?? null,
-              bounds: response.data.bounds ?? null,
-              ownerPID: response.data.ownerPID ?? null
-            });
-          } else {
-            reject(new Error(response.error || 'Pick failed'));
-          }
-        }
-      };
-      this.on('response', handler);
-      this.sendCommand({ action: 'pick' });
+      this.queue.push({
+        id: String(this.nextRequestId++),
+        command,
+        timeoutMs,
+        timeoutMessage,
+        timer: null,
+        attempts: 0,
+        settled: false,
+        resolve,
+        reject
+      });
+      this.pump();
     });
   }
 
-  scan(options?: { saveTo?: string; languages?: string[] }): Promise<OCRData> {
-    return new Promise((resolve, reject) => {
-      // Timeout for scan operation (30 seconds)
-      const timeout = setTimeout(() => {
-        this.removeListener('response', handler);
-        reject(new Error('OCR scan timed out'));
-      }, 30000);
-
-      const handler = (response: CLIResponse) => {
-        if (response.type === 'scan' || response.type === 'pick') {
-          // If we get a pick response first (no window selected), wait for scan
-          if (response.type === 'pick') {
-            if (!response.success) {
-              clearTimeout(timeout);
-              this.removeListener('response', handler);
-              reject(new Error(response.error || 'Window selection cancelled'));
-            }
-            return;
-          }
-
-          clearTimeout(timeout);
-          this.removeListener('response', handler);
-          if (response.success && response.data) {
-            resolve({
-              imageWidth: response.data.imageWidth!,
-              imageHeight: response.data.imageHeight!,
-              observations: response.data.observations || [],
-              bounds: response.data.bounds  // Now always included in scan response
-            });
-          } else {
-            reject(new Error(response.error || 'Scan failed'));
-          }
-        }
-      };
-      this.on('response', handler);
-      this.sendCommand({ action: 'scan', ...options });
+  private pump(): void {
+    // While the CLI is (re)starting, requests stay queued until the handshake completes
+    if (!this.ready || this.activeRequest || this.queue.length === 0) {
+      return;
+    }
+
+    const request = this.queue.shift()!;
+    this.activeRequest = request;
+    request.attempts++;
+
+    // The timeout covers the time the CLI spends on the command, not the time spent queued
+    request.timer = setTimeout(() => {
+      this.sendCancel(request.id);
+      this.settle(request, new Error(request.timeoutMessage));
+    }, request.timeoutMs);
+
+    try {
+      this.sendCommand({ ...request.command, id: request.id });
+    } catch (err) {
+      this.settle(request, err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  // Every request ends up here exactly once, whichever of reply/timeout/cancel/exit comes first
+  private settle(request: PendingRequest, result: CLIResponse | Error): void {
+    if (request.settled) {
+      return;
+    }
+    request.settled = true;
+
+    if (request.timer) {
+      clearTimeout(request.timer);
+    }
+    this.queue = this.queue.filter((r) => r !== request);
+    if (this.activeRequest === request) {
+      this.activeRequest = null;
+    }
+
+    if (result instanceof Error) {
+      request.reject(result);
+    } else {
+      request.resolve(result);
+    }
+
+    this.pump();
+  }
+
+  private handleResponse(response: CLIResponse): void {
+    // The ready handshake and cancel acks carry no request id
+    if (response.id === undefined) {
+      if (response.type === 'error') {
+        console.error('OCR CLI error:', response.error);
+      }
+      return;
+    }
+
+    const request = this.activeRequest;
+    if (!request || request.id !== response.id) {
+      console.log(`Ignoring stale ${response.type} reply for request ${response.id}`);
+      return;
+    }
+
+    // Scanning without a window opens the picker first; its reply only ends the scan on failure
+    if (request.command.action === 'scan' && response.type === 'pick' && response.success) {
+      this.emit('window-selected', this.toWindowData(response));
+      return;
+    }
+
+    this.settle(request, response);
+  }
+
+  private sendCancel(requestId: string): void {
+    try {
+      this.sendCommand({ action: 'cancel', target: requestId });
+    } catch {
+      // CLI already gone, nothing to cancel
+    }
+  }
+
+  private cancelMatching(predicate: (request: PendingRequest) => boolean): void {
+    // Drop queued requests first so settling the active one doesn't send them
+    for (const request of this.queue.filter(predicate)) {
+      this.settle(request, new Error(`${request.command.action} request cancelled`));
+    }
+    const active = this.activeRequest;
+    if (active && predicate(active)) {
+      this.sendCancel(active.id);
+      this.settle(active, new Error(`${active.command.action} request cancelled`));
+    }
+  }
+
+  private rejectAll(err: Error): void {
+    for (const request of [...this.queue]) {
+      this.settle(request, err);
+    }
+    if (this.activeRequest) {
+      this.settle(this.activeRequest, err);
+    }
+  }
+
+  // Abort the running and queued commands, or only the one with the given request id
+  cancel(requestId?: string): void {
+    this.cancelMatching((request) => requestId === undefined || request.id === requestId);
+  }
+
+  async pick(): Promise<WindowSelectedData> {
+    const response = await this.request({ action: 'pick' }, this.timeouts.pickMs, 'Window selection timed out');
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Pick failed');
+    }
+    const windowData = this.toWindowData(response);
+    this.emit('window-selected', windowData);
+    return windowData;
+  }
+
+  private toWindowData(response: CLIResponse): WindowSelectedData {
+    return {
+      windowId: response.data?.windowId ?? null,
+      appName: response.data?.appName ?? null,
+      windowTitle: response.data?.windowTitle ?? null,
+      bounds: response.data?.bounds ?? null,
+      ownerPID: response.data?.ownerPID ?? null
+    };
+  }
+
+  async scan(options?: ScanOptions): Promise<OCRData> {
+    const response = await this.request({ action: 'scan', ...options }, this.timeouts.scanMs, 'OCR scan timed out');
+    if (response.type === 'pick') {
+      // Window selection failed before the scan could run
+      throw new Error(response.error || 'Window selection cancelled');
+    }
+    return this.toOCRData(response);
+  }
+
+  scanImage(image: string | Buffer, options?: ScanOptions): Promise<OCRData> {
+    return withImageFile(image, async (imagePath) => {
+      const response = await this.request(
+        {
+          action: 'scanImage',
+          path: path.resolve(imagePath),
+          languages: options?.languages,
+          region: options?.region,
+          preprocess: options?.preprocess,
+          previewTo: options?.previewTo && path.resolve(options.previewTo)
+        },
+        this.timeouts.scanMs,
+        'OCR scan timed out'
+      );
+      return this.toOCRData(response);
     });
   }
 
+  async windowState(): Promise<WindowState> {
+    const response = await this.request({ action: 'windowState' }, WINDOW_STATE_TIMEOUT_MS, 'Window state timed out');
+    if (!response.success || !response.data?.state) {
+      throw new Error(response.error || 'Window state failed');
+    }
+    return {
+      state: response.data.state,
+      bounds: response.data.bounds ?? null,
+      windowTitle: response.data.windowTitle ?? null,
+      frontmost: response.data.frontmost ?? false
+    };
+  }
+
+  private toOCRData(response: CLIResponse): OCRData {
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Scan failed');
+    }
+    return {
+      imageWidth: response.data.imageWidth!,
+      imageHeight: response.data.imageHeight!,
+      observations: response.data.observations || [],
+      bounds: response.data.bounds  // Included in window scans, absent for image files
+    };
+  }
+
   quit(): void {
     this.sendCommand({ action: 'quit' });
   }
 
   stop(): void {
-    if (this.process) {
-      this.quit();
-      this.process.kill();
-      this.process = null;
+    this.stopping = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
     }
+
+    const child = this.process;
+    this.process = null;
+    this.ready = false;
+    this.rejectAll(new Error('OCR engine stopped'));
+
+    if (!child) {
+      return;
+    }
+    // Only ask a live CLI to quit, and only kill it if it has not exited already
+    if (child.stdin && !child.stdin.destroyed && child.stdin.writable) {
+      this.record({ command: { action: 'quit' } });
+      child.stdin.write(JSON.stringify({ action: 'quit' }) + '\n');
+    }
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  }
+
+  setTimeouts(timeouts: EngineTimeouts): void {
+    this.timeouts = timeouts;
   }
 
   isReady(): boolean {
@@ -0,0 +1,76 @@
+import { OCRData } from './ocr-engine';
+import { PixelBox, pixelBox } from './layout';
+
+// A box of the new scan matched to a box of the previous one
+export interface ObservationMatch {
+  previous: number;
+  next: number;
+  // Same region but the recognized text differs
+  changed: boolean;
+}
+
+export interface OCRDiff {
+  matches: ObservationMatch[];
+  // Indices into the new scan's observations with no counterpart in the previous scan
+  added: number[];
+  // Indices into the previous scan's observations that are gone
+  removed: number[];
+}
+
+// Boxes overlapping by at least this much (intersection over union) are the same region
+const MIN_OVERLAP = 0.5;
+
+function overlapRatio(a: PixelBox, b: PixelBox): number {
+  const width = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  const height = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+  const intersection = width * height;
+  const area = (box: PixelBox) => (box.right - box.left) * (box.bottom - box.top);
+  return intersection / (area(a) + area(b) - intersection);
+}
+
+// Match boxes of two scans of the same window by position, then compare their text.
+// Pairs are taken best overlap first, preferring identical text, so every box is used at most once.
+export function diffOCRData(previous: OCRData, next: OCRData): OCRDiff {
+  // Compare in the new scan's pixel space; the window may have been resized in between
+  const previousBoxes = previous.observations.map((obs) => pixelBox(obs, next.imageWidth, next.imageHeight));
+  const nextBoxes = next.observations.map((obs) => pixelBox(obs, next.imageWidth, next.imageHeight));
+
+  const candidates: { previous: number; next: number; overlap: number; sameText: boolean }[] = [];
+  nextBoxes.forEach((nextBox, nextIndex) => {
+    previousBoxes.forEach((previousBox, previousIndex) => {
+      const overlap = overlapRatio(previousBox, nextBox);
+      if (overlap >= MIN_OVERLAP) {
+        const sameText = previous.observations[previousIndex].text === next.observations[nextIndex].text;
+        candidates.push({ previous: previousIndex, next: nextIndex, overlap, sameText });
+      }
+    });
+  });
+  candidates.sort((a, b) => Number(b.sameText) - Number(a.sameText) || b.overlap - a.overlap);
+
+  const usedPrevious = new Set<number>();
+  const usedNext = new Set<number>();
+  const matches: ObservationMatch[] = [];
+  for (const candidate of candidates) {
+    if (usedPrevious.has(candidate.previous) || usedNext.has(candidate.next)) {
+      continue;
+    }
+    usedPrevious.add(candidate.previous);
+    usedNext.add(candidate.next);
+    matches.push({ previous: candidate.previous, next: candidate.next, changed: !candidate.sameText });
+  }
+
+  return {
+    matches: matches.sort((a, b) => a.next - b.next),
+    added: next.observations.map((_, i) => i).filter((i) => !usedNext.has(i)),
+    removed: previous.observations.map((_, i) => i).filter((i) => !usedPrevious.has(i))
+  };
+}
+
+// Indices into the new scan whose text was not on screen before
+export function newTextIndices(diff: OCRDiff): number[] {
+  return [...diff.added, ...diff.matches.filter((match) => match.changed).map((match) => match.next)]
+    .sort((a, b) => a - b);
+}
@@ -0,0 +1,174 @@
+import { EventEmitter } from 'events';
+import { imageToNormalized } from './coordinates';
+import { DocumentLayout } from './layout';
+import { PreprocessOptions } from './preprocess';
+
+// Shared data model produced by every OCR engine.
+// Coordinates follow the Vision convention: normalized to 0..1, bottom-left origin.
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextObservation {
+  text: string;
+  confidence: number;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  topLeft: { x: number; y: number };
+  topRight: { x: number; y: number };
+  bottomRight: { x: number; y: number };
+  bottomLeft: { x: number; y: number };
+  // What the engine read, when `text` was corrected by the user or a saved correction
+  originalText?: string;
+}
+
+export interface OCRData {
+  imageWidth: number;
+  imageHeight: number;
+  observations: TextObservation[];
+  bounds?: WindowBounds;  // Included when scan triggers a pick
+  layout?: DocumentLayout;  // Reading order, filled in by the main process before display
+  capture?: string;  // Id of the screenshot in the capture cache, when the main process kept it
+}
+
+export interface WindowSelectedData {
+  windowId: number | null;
+  appName: string | null;
+  windowTitle: string | null;
+  bounds: WindowBounds | null;
+  ownerPID: number | null;
+}
+
+// Where the picked window is now. 'hidden' covers minimized windows and windows of hidden apps
+// or on another desktop; 'closed' windows no longer exist.
+export interface WindowState {
+  state: 'visible' | 'hidden' | 'closed';
+  // Null when closed
+  bounds: WindowBounds | null;
+  // Current title, which games often change between scenes; null when closed or unknown
+  windowTitle: string | null;
+  // Whether the window belongs to the app in front
+  frontmost: boolean;
+}
+
+// Part of the window to recognize, normalized like boundingBox (bottom-left origin)
+export interface ScanRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScanOptions {
+  saveTo?: string;
+  languages?: string[];
+  // Only text inside the region is recognized; observations still use full-window coordinates
+  region?: ScanRegion;
+  // Filters for the captured image; observations and image size still describe the capture
+  preprocess?: PreprocessOptions;
+  // Where to write the image as it was recognized, after preprocessing
+  previewTo?: string;
+}
+
+export interface EngineTimeouts {
+  startupMs: number;
+  pickMs: number;  // User may take time to choose
+  scanMs: number;
+}
+
+export const DEFAULT_TIMEOUTS: EngineTimeouts = {
+  startupMs: 5000,
+  pickMs: 60000,
+  scanMs: 30000
+};
+
+export interface EngineCapabilities {
+  // Can pick and capture live windows itself
+  windowCapture: boolean;
+  // Can recognize an existing image file
+  imageScan: boolean;
+  // 'line' engines return one observation per text line,
+  // 'image' engines return a single observation covering the whole image
+  boxes: 'line' | 'image';
+  // Whether observation.confidence carries real information
+  confidence: boolean;
+}
+
+// Shown by the overlay while a supervised engine is restarting or has given up
+export interface EngineStatus {
+  state: 'running' | 'restarting' | 'failed';
+  message: string;
+}
+
+// Common surface for anything that can turn a window or image into OCRData.
+// Engines emit 'window-selected' (WindowSelectedData) whenever a target window is picked,
+// including picks triggered by scanning without a target, and 'error' (Error) and
+// 'close' (exit code) when a backing process dies.
+// Supervised engines also emit 'restarting' ({ attempt, delayMs, code }), 'restarted'
+// and 'crash-loop' ({ crashes, windowMs }) once they stop restarting.
+export interface OCREngine extends EventEmitter {
+  readonly name: string;
+  readonly capabilities: EngineCapabilities;
+
+  start(): Promise<void>;
+  stop(): void;
+  isReady(): boolean;
+
+  pick(): Promise<WindowSelectedData>;
+  scan(options?: ScanOptions): Promise<OCRData>;
+  // Recognize a PNG or JPEG file, or its contents; same OCRData as a window scan, without bounds
+  scanImage(image: string | Buffer, options?: ScanOptions): Promise<OCRData>;
+  // Current bounds and visibility of the picked window; rejects when none was picked
+  windowState(): Promise<WindowState>;
+  // Abort running and queued requests; their promises reject with a "cancelled" error
+  cancel(): void;
+  // Applies to requests started after the call
+  setTimeouts(timeouts: EngineTimeouts): void;
+}
+
+// Build an observation from a pixel rect in top-left origin image space
+export function observationFromPixelRect(
+  text: string,
+  confidence: number,
+  rect: { left: number; top: number; width: number; height: number },
+  imageWidth: number,
+  imageHeight: number
+): TextObservation {
+  const { x, y, width, height } = imageToNormalized(
+    { x: rect.left, y: rect.top, width: rect.width, height: rect.height },
+    imageWidth,
+    imageHeight
+  );
+
+  return {
+    text,
+    confidence,
+    boundingBox: { x, y, width, height },
+    topLeft: { x, y: y + height },
+    topRight: { x: x + width, y: y + height },
+    bottomRight: { x: x + width, y },
+    bottomLeft: { x, y }
+  };
+}
+
+// Map an observation recognized in a crop of the image back to coordinates of the whole image
+export function observationFromRegion(obs: TextObservation, region: ScanRegion): TextObservation {
+  const point = (p: { x: number; y: number }) => ({
+    x: region.x + p.x * region.width,
+    y: region.y + p.y * region.height
+  });
+  return {
+    ...obs,
+    boundingBox: {
+      ...point(obs.boundingBox),
+      width: obs.boundingBox.width * region.width,
+      height: obs.boundingBox.height * region.height
+    },
+    topLeft: point(obs.topLeft),
+    topRight: point(obs.topRight),
+    bottomRight: point(obs.bottomRight),
+    bottomLeft: point(obs.bottomLeft)
+  };
+}
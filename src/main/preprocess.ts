@@ -0,0 +1,94 @@
+// Filters applied to a captured image before recognition, in this order: grayscale, outline
+// removal, upscaling, threshold, inversion. None of them moves content within the image, so boxes
+// found in the processed image are already in the normalized coordinates of the original capture.
+export interface PreprocessOptions {
+  // Upscale factor; small or pixelated fonts often read better at 2-3x
+  scale: number;
+  grayscale: boolean;
+  // Paints over dark outlines around light text up to this many pixels wide; 0 keeps them
+  outlineWidth: number;
+  // Brightness (0..1) splitting black from white; implies grayscale. 0 leaves the image as it is
+  threshold: number;
+  // Light text on dark backgrounds becomes dark text on light ones
+  invert: boolean;
+}
+
+export const NO_PREPROCESSING: PreprocessOptions = {
+  scale: 1,
+  grayscale: false,
+  outlineWidth: 0,
+  threshold: 0,
+  invert: false
+};
+
+// Whether any filter would change the image
+export function isPreprocessing(options: PreprocessOptions | undefined): options is PreprocessOptions {
+  return !!options && (options.scale !== 1 || options.grayscale || options.outlineWidth > 0 ||
+    options.threshold > 0 || options.invert);
+}
+
+// Radius of the round brush that closes outlines of the given width; the brush must be wider
+// than the outline. The Swift CLI uses the same radius.
+export function outlineRadius(outlineWidth: number): number {
+  return outlineWidth / 2 + 0.5;
+}
+
+// ImageMagick `convert` arguments between the input and output file
+export function imageMagickArgs(options: PreprocessOptions): string[] {
+  const args: string[] = [];
+  if (options.grayscale || options.threshold > 0) {
+    args.push('-colorspace', 'Gray');
+  }
+  if (options.outlineWidth > 0) {
+    args.push('-morphology', 'Close', `Disk:${outlineRadius(options.outlineWidth)}`);
+  }
+  if (options.scale !== 1) {
+    args.push('-filter', 'Lanczos', '-resize', `${options.scale * 100}%`);
+  }
+  if (options.threshold > 0) {
+    args.push('-threshold', `${options.threshold * 100}%`);
+  }
+  if (options.invert) {
+    args.push('-negate');
+  }
+  return args;
+}
+
+// Parses the batch CLI's --preprocess value, e.g. "scale=2,grayscale,threshold=0.5,outline=1,invert"
+export function parsePreprocess(spec: string): PreprocessOptions {
+  const options = { ...NO_PREPROCESSING };
+  for (const part of spec.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const [name, value] = part.split('=').map((item) => item.trim());
+    const number = Number(value);
+    switch (name) {
+      case 'grayscale':
+      case 'invert':
+        if (value !== undefined) {
+          throw new Error(`${name} takes no value`);
+        }
+        options[name] = true;
+        break;
+      case 'scale':
+        if (!(number >= 1 && number <= 4)) {
+          throw new Error('scale must be between 1 and 4');
+        }
+        options.scale = number;
+        break;
+      case 'threshold':
+        if (!(number > 0 && number <= 1)) {
+          throw new Error('threshold must be above 0 and at most 1');
+        }
+        options.threshold = number;
+        break;
+      case 'outline':
+        if (!(Number.isInteger(number) && number >= 1 && number <= 10)) {
+          throw new Error('outline must be a whole number of pixels from 1 to 10');
+        }
+        options.outlineWidth = number;
+        break;
+      default:
+        throw new Error(`Unknown preprocessing step: ${name}`);
+    }
+  }
+  return options;
+}
@@ -0,0 +1,257 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScanRegion } from './ocr-engine';
+import { isRegion } from './region-store';
+import { DeepPartial, Settings, SettingsError, validateSettings, validateSettingsPatch } from './settings';
+
+// Settings sections a profile overrides; everything else always comes from the global settings
+export const PROFILE_SECTIONS = ['recognition', 'preprocess', 'noiseFilter', 'watch', 'overlay'] as const;
+export type ProfileSettings = DeepPartial<Pick<Settings, typeof PROFILE_SECTIONS[number]>>;
+
+// Scan options for one game or app, applied whenever its window is picked or comes to the front
+export interface Profile {
+  id: string;
+  name: string;
+  appName: string;
+  // Part of the window title to match; empty matches every window of the app
+  windowTitle: string;
+  // Scan region for the window, null for the whole window
+  region: ScanRegion | null;
+  settings: ProfileSettings;
+  // Lines may be sent to the translation provider; off unless turned on for the profile
+  translate: boolean;
+}
+
+// What can be edited about a profile besides its settings and region
+export type ProfileChanges = Partial<Pick<Profile, 'name' | 'windowTitle' | 'translate'>>;
+
+// What the settings window shows: every profile, the one in use and the window it is for
+export interface ProfilesState {
+  profiles: Profile[];
+  activeId: string | null;
+  target: { appName: string | null; windowTitle: string | null } | null;
+}
+
+// What export writes and import reads
+export interface ProfileFile {
+  version: 1;
+  profiles: Profile[];
+}
+
+// The profile for a window; one matching on the window title beats one for the whole app,
+// and a longer title beats a shorter one
+export function matchProfile(profiles: Profile[], appName: string | null, windowTitle: string | null): Profile | null {
+  if (!appName) {
+    return null;
+  }
+  const candidates = profiles.filter((profile) =>
+    profile.appName === appName && (windowTitle ?? '').includes(profile.windowTitle));
+  candidates.sort((a, b) => b.windowTitle.length - a.windowTitle.length);
+  return candidates[0] ?? null;
+}
+
+// The global settings with the profile's overrides on top
+export function profileSettings(settings: Settings, profile: Profile | null): Settings {
+  return profile ? validateSettings(profile.settings, settings).settings : settings;
+}
+
+// The profile sections of `settings`, as a new profile's starting point
+export function settingsForProfile(settings: Settings): ProfileSettings {
+  return structuredClone({
+    recognition: settings.recognition,
+    preprocess: settings.preprocess,
+    noiseFilter: settings.noiseFilter,
+    watch: settings.watch,
+    overlay: settings.overlay
+  });
+}
+
+// Checks a profile read from a file; errors are prefixed with `prefix` ("profiles.2")
+export function parseProfile(raw: unknown, prefix: string, errors: SettingsError[]): Profile | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push({ path: prefix, message: 'must be an object' });
+    return null;
+  }
+  const input = raw as Record<string, unknown>;
+  if (typeof input.appName !== 'string' || !input.appName) {
+    errors.push({ path: `${prefix}.appName`, message: 'must be the name of an app' });
+    return null;
+  }
+  const windowTitle = typeof input.windowTitle === 'string' ? input.windowTitle : '';
+  const { patch, errors: settingsErrors } = validateSettingsPatch(input.settings ?? {}, PROFILE_SECTIONS);
+  for (const error of settingsErrors) {
+    errors.push({ path: `${prefix}.settings.${error.path}`, message: error.message });
+  }
+  if (input.region !== undefined && input.region !== null && !isRegion(input.region)) {
+    errors.push({ path: `${prefix}.region`, message: 'must be a region or null' });
+  }
+
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : crypto.randomUUID(),
+    name: typeof input.name === 'string' && input.name.trim() ? input.name.trim() : windowTitle || input.appName,
+    appName: input.appName,
+    windowTitle,
+    region: isRegion(input.region) ? input.region : null,
+    settings: patch,
+    translate: input.translate === true
+  };
+}
+
+// Profiles kept as JSON in the user-data directory
+export class ProfileStore {
+  private filePath: string;
+  private profiles: Profile[];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.profiles = this.load();
+  }
+
+  private load(): Profile[] {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+    const errors: SettingsError[] = [];
+    const profiles = this.parseFile(raw, errors);
+    for (const error of errors) {
+      console.error(`Ignoring profile setting ${error.path}: ${error.message}`);
+    }
+    return profiles;
+  }
+
+  private parseFile(raw: unknown, errors: SettingsError[]): Profile[] {
+    const list = (raw as Partial<ProfileFile> | null)?.profiles;
+    if (!Array.isArray(list)) {
+      errors.push({ path: 'profiles', message: 'must be a list of profiles' });
+      return [];
+    }
+    return list
+      .map((item, i) => parseProfile(item, `profiles.${i}`, errors))
+      .filter((profile): profile is Profile => profile !== null);
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = this.filePath + '.tmp';
+    fs.writeFileSync(tmpPath, this.serialize(this.profiles));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private serialize(profiles: Profile[]): string {
+    const file: ProfileFile = { version: 1, profiles };
+    return JSON.stringify(file, null, 2);
+  }
+
+  list(): Profile[] {
+    return this.profiles;
+  }
+
+  get(id: string): Profile | null {
+    return this.profiles.find((profile) => profile.id === id) ?? null;
+  }
+
+  match(appName: string | null, windowTitle: string | null): Profile | null {
+    return matchProfile(this.profiles, appName, windowTitle);
+  }
+
+  create(appName: string, windowTitle: string, region: ScanRegion | null, settings: ProfileSettings): Profile {
+    const profile: Profile = {
+      id: crypto.randomUUID(),
+      name: windowTitle || appName,
+      appName,
+      windowTitle,
+      region,
+      settings,
+      translate: false
+    };
+    this.profiles = [...this.profiles, profile];
+    this.save();
+    return profile;
+  }
+
+  // An empty name falls back to what the profile matches
+  edit(id: string, changes: ProfileChanges): Profile | null {
+    return this.replace(id, (profile) => {
+      const windowTitle = changes.windowTitle ?? profile.windowTitle;
+      const name = changes.name === undefined ? profile.name : changes.name.trim() || windowTitle || profile.appName;
+      const translate = changes.translate ?? profile.translate;
+      return { ...profile, name, windowTitle, translate };
+    });
+  }
+
+  // Valid parts of the patch are applied even if other parts are rejected, like settings updates
+  updateSettings(id: string, patch: unknown): { profile: Profile | null; errors: SettingsError[] } {
+    const { patch: valid, errors } = validateSettingsPatch(patch, PROFILE_SECTIONS);
+    const profile = this.replace(id, (current) => {
+      const merged = validateSettingsPatch(
+        mergeDeep(current.settings as Record<string, unknown>, valid as Record<string, unknown>),
+        PROFILE_SECTIONS
+      ).patch;
+      return { ...current, settings: merged };
+    });
+    return { profile, errors };
+  }
+
+  setRegion(id: string, region: ScanRegion | null): Profile | null {
+    return this.replace(id, (profile) => ({ ...profile, region }));
+  }
+
+  remove(id: string): void {
+    this.profiles = this.profiles.filter((profile) => profile.id !== id);
+    this.save();
+  }
+
+  exportProfiles(): string {
+    return this.serialize(this.profiles);
+  }
+
+  // Imported profiles replace the ones that match the same window, so importing a file
+  // again updates them instead of adding copies
+  importProfiles(json: string): { imported: Profile[]; errors: SettingsError[] } {
+    const errors: SettingsError[] = [];
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return { imported: [], errors: [{ path: '(file)', message: 'is not valid JSON' }] };
+    }
+    const imported = this.parseFile(raw, errors);
+    const sameWindow = (a: Profile, b: Profile) => a.appName === b.appName && a.windowTitle === b.windowTitle;
+    this.profiles = [
+      ...this.profiles.filter((profile) => !imported.some((item) => sameWindow(item, profile) || item.id === profile.id)),
+      ...imported
+    ];
+    if (imported.length > 0) {
+      this.save();
+    }
+    return { imported, errors };
+  }
+
+  private replace(id: string, change: (profile: Profile) => Profile): Profile | null {
+    const current = this.get(id);
+    if (!current) {
+      return null;
+    }
+    const updated = change(current);
+    this.profiles = this.profiles.map((profile) => (profile.id === id ? updated : profile));
+    this.save();
+    return updated;
+  }
+}
+
+function mergeDeep(base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeDeep(current, value) : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScanRegion } from './ocr-engine';
+
+export function isRegion(value: unknown): value is ScanRegion {
+  const region = value as ScanRegion;
+  return typeof value === 'object' && value !== null &&
+    [region.x, region.y, region.width, region.height].every((n) => typeof n === 'number' && Number.isFinite(n));
+}
+
+// Last scan region of each app, keyed by app name and kept as JSON in the user-data directory
+export class RegionStore {
+  private filePath: string;
+  private regions: Record<string, ScanRegion>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.regions = this.load();
+  }
+
+  private load(): Record<string, ScanRegion> {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const regions: Record<string, ScanRegion> = {};
+      for (const [appName, region] of Object.entries(raw ?? {})) {
+        if (isRegion(region)) {
+          regions[appName] = region;
+        }
+      }
+      return regions;
+    } catch {
+      return {};
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = this.filePath + '.tmp';
+    fs.writeFileSync(tmpPath, JSON.stringify(this.regions, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get(appName: string | null): ScanRegion | null {
+    return appName ? this.regions[appName] ?? null : null;
+  }
+
+  // A null region goes back to scanning the whole window
+  set(appName: string | null, region: ScanRegion | null): void {
+    if (!appName) {
+      return;
+    }
+    if (region) {
+      this.regions[appName] = region;
+    } else {
+      delete this.regions[appName];
+    }
+    this.save();
+  }
+}
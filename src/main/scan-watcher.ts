@@ -0,0 +1,150 @@
+import { EventEmitter } from 'events';
+import { OCRData } from './ocr-engine';
+import { OCRDiff, diffOCRData, newTextIndices } from './ocr-diff';
+import { layoutTextFor } from './layout';
+
+export interface WatchUpdate {
+  data: OCRData;
+  // Null for the first scan after starting without a previous result
+  diff: OCRDiff | null;
+}
+
+export interface NewTextEvent {
+  data: OCRData;
+  // Indices into data.observations that were not on screen in the previous scan
+  observations: number[];
+  // Their text in reading order
+  text: string;
+}
+
+// Upper bound for the delay after repeated scan failures
+const MAX_BACKOFF_MS = 30000;
+
+// Re-scans the target window on an interval and/or on demand. Scans never overlap: the next
+// one is scheduled only after the previous one has finished, and on-demand triggers during
+// a scan are coalesced into one follow-up scan. Failures back off exponentially.
+// Emits 'update' (WatchUpdate) for every scan, 'new-text' (NewTextEvent) when text appeared
+// or changed, and 'scan-failed' (Error).
+export class ScanWatcher extends EventEmitter {
+  private scan: () => Promise<OCRData>;
+  private intervalMs: number;
+  private active = false;
+  private inFlight = false;
+  private pending = false;
+  private failures = 0;
+  // Bumped on every start/stop so a scan finishing after a restart is ignored
+  private generation = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private previous: OCRData | null = null;
+
+  // An interval of 0 only re-scans when trigger() is called
+  constructor(scan: () => Promise<OCRData>, intervalMs: number) {
+    super();
+    this.scan = scan;
+    this.intervalMs = intervalMs;
+  }
+
+  // `previous` is what the overlay currently shows, so the first scan only updates what changed
+  start(previous: OCRData | null = null): void {
+    this.stop();
+    this.active = true;
+    this.previous = previous;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.active = false;
+    this.generation++;
+    this.pending = false;
+    this.failures = 0;
+    this.previous = null;
+    this.clearTimer();
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  trigger(): void {
+    if (!this.active) {
+      return;
+    }
+    if (this.inFlight) {
+      this.pending = true;
+      return;
+    }
+    this.schedule(0);
+  }
+
+  setInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+    if (this.active && !this.inFlight) {
+      this.schedule(intervalMs > 0 ? intervalMs : null);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number | null): void {
+    this.clearTimer();
+    if (this.active && delayMs !== null) {
+      this.timer = setTimeout(() => this.run(), delayMs);
+    }
+  }
+
+  private async run(): Promise<void> {
+    this.timer = null;
+    if (this.inFlight) {
+      this.pending = true;
+      return;
+    }
+
+    const generation = this.generation;
+    this.inFlight = true;
+    let delayMs: number | null = this.intervalMs > 0 ? this.intervalMs : null;
+    try {
+      const data = await this.scan();
+      if (generation === this.generation) {
+        this.failures = 0;
+        this.handleResult(data);
+      }
+    } catch (err) {
+      if (generation === this.generation) {
+        this.failures++;
+        // On-demand watching waits for the next trigger instead of retrying
+        delayMs = this.intervalMs > 0 ? Math.min(this.intervalMs * 2 ** this.failures, MAX_BACKOFF_MS) : null;
+        this.emit('scan-failed', err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      this.inFlight = false;
+    }
+
+    // After a restart during this scan, only the first scan of the new run may be waiting
+    if (this.pending) {
+      this.pending = false;
+      this.schedule(0);
+    } else if (generation === this.generation) {
+      this.schedule(delayMs);
+    }
+  }
+
+  private handleResult(data: OCRData): void {
+    const diff = this.previous ? diffOCRData(this.previous, data) : null;
+    this.previous = data;
+    this.emit('update', { data, diff } as WatchUpdate);
+
+    const observations = diff
+      ? newTextIndices(diff)
+      : data.observations.map((_, i) => i);
+    const fresh = observations.filter((i) => data.observations[i].text.trim());
+    if (fresh.length > 0) {
+      const event: NewTextEvent = { data, observations: fresh, text: layoutTextFor(data, new Set(fresh)) };
+      this.emit('new-text', event);
+    }
+  }
+}
@@ -0,0 +1,519 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnkiSettings } from './anki';
+import { CaptureSettings } from './capture-cache';
+import { NoiseFilterSettings } from './noise-filter';
+import { PreprocessOptions } from './preprocess';
+import { TranslationSettings } from './translation';
+
+export interface ShortcutSettings {
+  scan: string;
+  cancel: string;
+  pick: string;
+  copyText: string;
+  exportScan: string;
+  toggleOverlay: string;
+  hideOverlay: string;
+  history: string;
+  toggleWatch: string;
+  selectRegion: string;
+  navigate: string;
+  readingPanel: string;
+  settings: string;
+  yomitanSettings: string;
+}
+
+export interface Settings {
+  version: number;
+  // Engine used at startup; 'auto' picks Vision on macOS and Tesseract elsewhere
+  engine: 'auto' | 'vision' | 'tesseract' | 'manga-ocr';
+  shortcuts: ShortcutSettings;
+  recognition: {
+    languages: string[];
+  };
+  // Filters for captured images before recognition, for stylized or low-contrast text
+  preprocess: PreprocessOptions;
+  timeouts: {
+    startupMs: number;
+    pickMs: number;
+    scanMs: number;
+  };
+  // Boxes hidden in the overlay and left out of history, export and text output
+  noiseFilter: NoiseFilterSettings;
+  output: {
+    // Push new lines to texthooker pages over a local WebSocket
+    websocket: {
+      enabled: boolean;
+      port: number;
+    };
+    // Also copy new lines to the clipboard, for clipboard-watching texthookers
+    clipboard: boolean;
+  };
+  // Localhost HTTP control API; a token is generated when it is enabled without one
+  api: {
+    enabled: boolean;
+    port: number;
+    token: string;
+  };
+  watch: {
+    // Re-scan interval in watch mode; 0 only re-scans when the scan shortcut is pressed
+    intervalMs: number;
+  };
+  // Follow the picked window: move the overlay with it and hide it while the window is minimized
+  tracking: {
+    enabled: boolean;
+    intervalMs: number;
+  };
+  // Side window with the transcript of the latest scans
+  readingPanel: {
+    fontSize: number;
+    // Earlier scans kept above the current one
+    keepScans: number;
+  };
+  navigation: {
+    // Held on the mouse move that asks Yomitan to look up the word at the keyboard caret;
+    // should match Yomitan's scan modifier
+    lookupModifier: 'none' | 'shift' | 'alt' | 'control' | 'meta';
+  };
+  overlay: {
+    frameColor: string;
+    frameWidth: number;
+    boxColor: string;
+    // Boxes below this confidence get a dashed outline; 0 marks nothing
+    lowConfidence: number;
+  };
+  // Where translations come from; only used for profiles that turn translation on
+  translation: TranslationSettings;
+  // Sentence cards sent to Anki from the overlay
+  anki: AnkiSettings;
+  // Screenshots behind scans, for cropping boxes out of them
+  captures: CaptureSettings;
+}
+
+// The part of the settings the overlay renderer needs
+export type OverlaySettings = Pick<Settings, 'noiseFilter' | 'overlay'>;
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export interface SettingsError {
+  path: string;
+  message: string;
+}
+
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  engine: 'auto',
+  shortcuts: {
+    scan: 'Option+A',
+    cancel: 'Option+Shift+A',
+    pick: 'CommandOrControl+Shift+P',
+    copyText: 'Option+C',
+    exportScan: 'CommandOrControl+Shift+E',
+    toggleOverlay: 'CommandOrControl+Shift+H',
+    hideOverlay: 'Escape',
+    history: 'CommandOrControl+Shift+L',
+    toggleWatch: 'CommandOrControl+Shift+W',
+    selectRegion: 'CommandOrControl+Shift+R',
+    navigate: 'CommandOrControl+Shift+K',
+    readingPanel: 'CommandOrControl+Shift+T',
+    settings: 'CommandOrControl+Shift+O',
+    yomitanSettings: 'CommandOrControl+Shift+Y'
+  },
+  recognition: {
+    languages: ['ja', 'en']
+  },
+  timeouts: {
+    startupMs: 5000,
+    pickMs: 60000,
+    scanMs: 30000
+  },
+  preprocess: {
+    scale: 1,
+    grayscale: false,
+    outlineWidth: 0,
+    threshold: 0,
+    invert: false
+  },
+  noiseFilter: {
+    minBoxWidth: 10,
+    minBoxHeight: 8,
+    minConfidence: 0
+  },
+  output: {
+    websocket: {
+      enabled: false,
+      port: 6677
+    },
+    clipboard: false
+  },
+  api: {
+    enabled: false,
+    port: 6678,
+    token: ''
+  },
+  watch: {
+    intervalMs: 1500
+  },
+  tracking: {
+    enabled: true,
+    intervalMs: 500
+  },
+  readingPanel: {
+    fontSize: 22,
+    keepScans: 5
+  },
+  navigation: {
+    lookupModifier: 'shift'
+  },
+  overlay: {
+    frameColor: '#ff0000',
+    frameWidth: 3,
+    boxColor: '#ff0000',
+    lowConfidence: 0.5
+  },
+  translation: {
+    provider: 'libretranslate',
+    source: 'ja',
+    target: 'en',
+    libreTranslate: {
+      url: 'http://localhost:5000',
+      apiKey: ''
+    },
+    command: {
+      command: '',
+      args: ['{source}', '{target}']
+    }
+  },
+  anki: {
+    enabled: false,
+    url: 'http://127.0.0.1:8765',
+    apiKey: '',
+    deck: 'Default',
+    noteType: 'Basic',
+    tags: ['ocr-mined'],
+    fields: {
+      sentence: 'Front',
+      picture: 'Back',
+      source: 'Back'
+    }
+  },
+  captures: {
+    keep: false,
+    maxSizeMB: 500,
+    maxAgeDays: 7
+  }
+};
+
+type FieldSchema =
+  | { type: 'string'; pattern?: RegExp; description: string }
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string[]'; minItems: number; pattern?: RegExp; description: string }
+  | { type: 'enum'; values: readonly string[] };
+
+interface SchemaNode {
+  [key: string]: FieldSchema | SchemaNode;
+}
+
+const ACCELERATOR = /^[^\s+]+(\+[^\s+]+)*$/;
+const COLOR = /^#[0-9a-fA-F]{6}$/;
+const TOKEN = /^([A-Za-z0-9_-]{16,})?$/;
+const LANGUAGE = /^[A-Za-z]{2,3}([-_][A-Za-z0-9]+)*$/;
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+const shortcut: FieldSchema = { type: 'string', pattern: ACCELERATOR, description: 'an accelerator like CommandOrControl+Shift+P' };
+
+const SCHEMA: SchemaNode = {
+  engine: { type: 'enum', values: ['auto', 'vision', 'tesseract', 'manga-ocr'] },
+  shortcuts: {
+    scan: shortcut,
+    cancel: shortcut,
+    pick: shortcut,
+    copyText: shortcut,
+    exportScan: shortcut,
+    toggleOverlay: shortcut,
+    hideOverlay: shortcut,
+    history: shortcut,
+    toggleWatch: shortcut,
+    selectRegion: shortcut,
+    navigate: shortcut,
+    readingPanel: shortcut,
+    settings: shortcut,
+    yomitanSettings: shortcut
+  },
+  recognition: {
+    languages: { type: 'string[]', minItems: 1, pattern: LANGUAGE, description: 'a language code like ja or en-US' }
+  },
+  preprocess: {
+    scale: { type: 'number', min: 1, max: 4 },
+    grayscale: { type: 'boolean' },
+    outlineWidth: { type: 'number', min: 0, max: 10, integer: true },
+    threshold: { type: 'number', min: 0, max: 1 },
+    invert: { type: 'boolean' }
+  },
+  timeouts: {
+    startupMs: { type: 'number', min: 1000, max: 60000, integer: true },
+    pickMs: { type: 'number', min: 5000, max: 600000, integer: true },
+    scanMs: { type: 'number', min: 1000, max: 300000, integer: true }
+  },
+  noiseFilter: {
+    minBoxWidth: { type: 'number', min: 0, max: 500 },
+    minBoxHeight: { type: 'number', min: 0, max: 500 },
+    minConfidence: { type: 'number', min: 0, max: 1 }
+  },
+  output: {
+    websocket: {
+      enabled: { type: 'boolean' },
+      port: { type: 'number', min: 1024, max: 65535, integer: true }
+    },
+    clipboard: { type: 'boolean' }
+  },
+  api: {
+    enabled: { type: 'boolean' },
+    port: { type: 'number', min: 1024, max: 65535, integer: true },
+    token: { type: 'string', pattern: TOKEN, description: 'empty or at least 16 letters, digits, - or _' }
+  },
+  watch: {
+    intervalMs: { type: 'number', min: 0, max: 600000, integer: true }
+  },
+  tracking: {
+    enabled: { type: 'boolean' },
+    intervalMs: { type: 'number', min: 100, max: 10000, integer: true }
+  },
+  readingPanel: {
+    fontSize: { type: 'number', min: 10, max: 72, integer: true },
+    keepScans: { type: 'number', min: 0, max: 50, integer: true }
+  },
+  navigation: {
+    lookupModifier: { type: 'enum', values: ['none', 'shift', 'alt', 'control', 'meta'] }
+  },
+  overlay: {
+    frameColor: { type: 'string', pattern: COLOR, description: 'a color like #ff0000' },
+    frameWidth: { type: 'number', min: 0, max: 20, integer: true },
+    boxColor: { type: 'string', pattern: COLOR, description: 'a color like #ff0000' },
+    lowConfidence: { type: 'number', min: 0, max: 1 }
+  },
+  translation: {
+    provider: { type: 'enum', values: ['libretranslate', 'command'] },
+    source: { type: 'string', pattern: /^(auto|[A-Za-z]{2,3}([-_][A-Za-z0-9]+)*)$/, description: 'auto or a language code like ja' },
+    target: { type: 'string', pattern: LANGUAGE, description: 'a language code like en' },
+    libreTranslate: {
+      url: { type: 'string', pattern: URL_PATTERN, description: 'an http:// or https:// URL' },
+      apiKey: { type: 'string', pattern: /^\S*$/, description: 'a key without spaces' }
+    },
+    command: {
+      command: { type: 'string', description: 'a program name or path' },
+      args: { type: 'string[]', minItems: 0, description: 'arguments' }
+    }
+  },
+  anki: {
+    enabled: { type: 'boolean' },
+    url: { type: 'string', pattern: URL_PATTERN, description: 'an http:// or https:// URL' },
+    apiKey: { type: 'string', pattern: /^\S*$/, description: 'a key without spaces' },
+    deck: { type: 'string', pattern: /\S/, description: 'the name of a deck' },
+    noteType: { type: 'string', pattern: /\S/, description: 'the name of a note type' },
+    tags: { type: 'string[]', minItems: 0, pattern: /^\S+$/, description: 'a tag without spaces' },
+    fields: {
+      sentence: { type: 'string', pattern: /\S/, description: 'the name of a field of the note type' },
+      picture: { type: 'string', description: 'the name of a field of the note type, or empty' },
+      source: { type: 'string', description: 'the name of a field of the note type, or empty' }
+    }
+  },
+  captures: {
+    keep: { type: 'boolean' },
+    maxSizeMB: { type: 'number', min: 10, max: 100000, integer: true },
+    maxAgeDays: { type: 'number', min: 1, max: 365, integer: true }
+  }
+};
+
+// Each migration upgrades raw settings from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Unversioned files predate the version field; their keys already match version 1
+  0: (raw) => ({ ...raw, version: 1 })
+};
+
+function isSchemaNode(node: FieldSchema | SchemaNode): node is SchemaNode {
+  return typeof (node as FieldSchema).type !== 'string';
+}
+
+function checkField(schema: FieldSchema, value: unknown): string | null {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string' || (schema.pattern && !schema.pattern.test(value))) {
+        return `must be ${schema.description}`;
+      }
+      return null;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || (schema.integer && !Number.isInteger(value))) {
+        return schema.integer ? 'must be a whole number' : 'must be a number';
+      }
+      if (value < schema.min || value > schema.max) {
+        return `must be between ${schema.min} and ${schema.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'string[]':
+      if (!Array.isArray(value) || value.length < schema.minItems || value.some((item) => typeof item !== 'string')) {
+        return `must be a list of at least ${schema.minItems} entries`;
+      }
+      if (schema.pattern && value.some((item: string) => !schema.pattern!.test(item))) {
+        return `entries must each be ${schema.description}`;
+      }
+      return null;
+    case 'enum':
+      return schema.values.includes(value as string) ? null : `must be one of ${schema.values.join(', ')}`;
+  }
+}
+
+// Copy every valid value from `input` over `base`; invalid or unknown values are reported and skipped
+function mergeValid(
+  schema: SchemaNode,
+  base: Record<string, unknown>,
+  input: unknown,
+  prefix: string,
+  errors: SettingsError[]
+): Record<string, unknown> {
+  const result = { ...base };
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push({ path: prefix || '(root)', message: 'must be an object' });
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    const fieldPath = prefix ? `${prefix}.${key}` : key;
+    const node = schema[key];
+    if (key === 'version' && !prefix) {
+      continue;
+    }
+    if (!node) {
+      errors.push({ path: fieldPath, message: 'is not a known setting' });
+      continue;
+    }
+    if (isSchemaNode(node)) {
+      result[key] = mergeValid(node, base[key] as Record<string, unknown>, value, fieldPath, errors);
+      continue;
+    }
+    const problem = checkField(node, value);
+    if (problem) {
+      errors.push({ path: fieldPath, message: problem });
+    } else {
+      result[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return result;
+}
+
+export function migrateSettings(raw: Record<string, unknown>): Record<string, unknown> {
+  let migrated = raw;
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No settings migration from version ${version}`);
+    }
+    migrated = migrate(migrated);
+    version = migrated.version as number;
+  }
+  return migrated;
+}
+
+export function validateSettings(raw: unknown, base: Settings = DEFAULT_SETTINGS): { settings: Settings; errors: SettingsError[] } {
+  const errors: SettingsError[] = [];
+  const merged = mergeValid(SCHEMA, base as unknown as Record<string, unknown>, raw, '', errors);
+  return { settings: structuredClone({ ...merged, version: SETTINGS_VERSION }) as unknown as Settings, errors };
+}
+
+// Checks a partial settings object, such as a profile's overrides, without filling in defaults.
+// Only the given top-level sections may appear in it.
+export function validateSettingsPatch<K extends keyof Settings>(
+  raw: unknown,
+  sections: readonly K[]
+): { patch: DeepPartial<Pick<Settings, K>>; errors: SettingsError[] } {
+  const errors: SettingsError[] = [];
+  const schema: SchemaNode = {};
+  for (const section of sections) {
+    schema[section] = SCHEMA[section];
+  }
+  const patch = raw === undefined ? {} : mergeValid(schema, {}, raw, '', errors);
+  return { patch: structuredClone(patch) as DeepPartial<Pick<Settings, K>>, errors };
+}
+
+// Settings persisted as JSON in the user-data directory. Emits 'changed' (settings, previous)
+// after every successful update.
+export class SettingsStore extends EventEmitter {
+  private filePath: string;
+  private settings: Settings;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.settings = this.load();
+  }
+
+  private load(): Settings {
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read settings, using defaults:', err);
+      }
+      return structuredClone(DEFAULT_SETTINGS);
+    }
+
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = migrateSettings(raw);
+    } catch (err) {
+      console.error('Failed to migrate settings, using defaults:', err);
+      return structuredClone(DEFAULT_SETTINGS);
+    }
+
+    const { settings, errors } = validateSettings(migrated);
+    for (const error of errors) {
+      console.error(`Ignoring setting ${error.path}: ${error.message}`);
+    }
+    if (migrated !== raw || errors.length > 0) {
+      this.save(settings);
+    }
+    return settings;
+  }
+
+  private save(settings: Settings): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = this.filePath + '.tmp';
+    fs.writeFileSync(tmpPath, JSON.stringify(settings, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get(): Settings {
+    return this.settings;
+  }
+
+  // Valid parts of the patch are applied and saved even if other parts are rejected
+  update(patch: DeepPartial<Settings>): { settings: Settings; errors: SettingsError[] } {
+    const previous = this.settings;
+    const { settings, errors } = validateSettings(patch, previous);
+
+    if (JSON.stringify(settings) !== JSON.stringify(previous)) {
+      this.settings = settings;
+      this.save(settings);
+      this.emit('changed', settings, previous);
+    }
+    return { settings: this.settings, errors };
+  }
+
+  reset(): Settings {
+    const previous = this.settings;
+    this.settings = structuredClone(DEFAULT_SETTINGS);
+    this.save(this.settings);
+    this.emit('changed', this.settings, previous);
+    return this.settings;
+  }
+}
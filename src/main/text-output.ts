@@ -0,0 +1,233 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { OCRData } from './ocr-engine';
+import { analyzeLayout, lineText } from './layout';
+
+export interface TextOutputSettings {
+  websocket: {
+    enabled: boolean;
+    port: number;
+  };
+  clipboard: boolean;
+}
+
+// Fixed key suffix from RFC 6455, section 1.3
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Clients only ever send control frames; anything larger is not a texthooker
+const MAX_CLIENT_FRAME = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  // Server frames are never masked
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Minimal WebSocket server that pushes text to every connected client, the way text hookers
+// (Textractor's WebSocket extension and friends) feed texthooker pages. Listens on localhost only.
+export class WebSocketBroadcaster {
+  private server: http.Server | null = null;
+  private clients = new Set<Duplex>();
+
+  start(port: number): Promise<void> {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' });
+      res.end('This server only speaks WebSocket\n');
+    });
+    server.on('upgrade', (req, socket) => this.accept(req, socket));
+
+    // Taken right away so isRunning() already holds while the port is being opened
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', (err) => {
+        if (this.server === server) {
+          this.server = null;
+        }
+        reject(err);
+      });
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+  }
+
+  stop(): void {
+    for (const socket of this.clients) {
+      socket.destroy();
+    }
+    this.clients.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  clientCount(): number {
+    return this.clients.size;
+  }
+
+  broadcast(text: string): void {
+    const frame = encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+    for (const socket of this.clients) {
+      socket.write(frame);
+    }
+  }
+
+  private accept(req: http.IncomingMessage, socket: Duplex): void {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      ''
+    ].join('\r\n'));
+    this.clients.add(socket);
+
+    let buffered: Buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffered = this.handleFrames(socket, Buffer.concat([buffered, chunk]));
+    });
+    socket.on('close', () => this.clients.delete(socket));
+    socket.on('error', () => this.clients.delete(socket));
+  }
+
+  // Answers pings and close frames; returns the bytes of an incomplete frame for the next chunk
+  private handleFrames(socket: Duplex, buffer: Buffer): Buffer {
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) {
+          break;
+        }
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) {
+          break;
+        }
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_CLIENT_FRAME) {
+        this.clients.delete(socket);
+        socket.destroy();
+        return Buffer.alloc(0);
+      }
+
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (buffer.length < offset + length) {
+        break;
+      }
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        this.clients.delete(socket);
+        socket.end(encodeFrame(OPCODE_CLOSE, payload.subarray(0, 2)));
+        return Buffer.alloc(0);
+      }
+      if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      }
+    }
+    return buffer;
+  }
+}
+
+// Lines of a scan in reading order, without empty ones
+export function scanLines(data: OCRData): string[] {
+  const layout = data.layout ?? analyzeLayout(data);
+  return layout.blocks
+    .flatMap((block) => block.lines.map((line) => lineText(data, line).trim()))
+    .filter(Boolean);
+}
+
+// Sends the lines each scan adds to texthooker pages and/or the clipboard. Lines that were
+// already in the previous scan are left out, so re-scanning an unchanged screen sends nothing.
+export class TextOutput {
+  private broadcaster = new WebSocketBroadcaster();
+  private settings: TextOutputSettings | null = null;
+  private previousLines = new Set<string>();
+  private writeClipboard: (text: string) => void;
+
+  // Takes the clipboard writer from index.ts so this module does not need Electron
+  constructor(writeClipboard: (text: string) => void) {
+    this.writeClipboard = writeClipboard;
+  }
+
+  // Starts, stops or moves the WebSocket server to match the settings
+  async configure(settings: TextOutputSettings): Promise<void> {
+    const previous = this.settings;
+    this.settings = settings;
+
+    const wasRunning = this.broadcaster.isRunning();
+    const portChanged = previous?.websocket.port !== settings.websocket.port;
+    if (wasRunning && (!settings.websocket.enabled || portChanged)) {
+      this.broadcaster.stop();
+    }
+    if (settings.websocket.enabled && (!wasRunning || portChanged)) {
+      await this.broadcaster.start(settings.websocket.port);
+      console.log(`Texthooker WebSocket listening on ws://127.0.0.1:${settings.websocket.port}`);
+    }
+  }
+
+  // Returns the lines that were sent
+  publish(data: OCRData): string[] {
+    const lines = scanLines(data);
+    const fresh = lines.filter((line, i) => !this.previousLines.has(line) && lines.indexOf(line) === i);
+    this.previousLines = new Set(lines);
+    if (fresh.length === 0 || !this.settings) {
+      return [];
+    }
+
+    const text = fresh.join('\n');
+    if (this.broadcaster.isRunning()) {
+      this.broadcaster.broadcast(text);
+    }
+    if (this.settings.clipboard) {
+      this.writeClipboard(text);
+    }
+    return fresh;
+  }
+
+  stop(): void {
+    this.broadcaster.stop();
+  }
+}
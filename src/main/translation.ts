@@ -0,0 +1,132 @@
+import { execFile } from 'child_process';
+
+export interface TranslationSettings {
+  provider: 'libretranslate' | 'command';
+  // Language of the scanned text, or 'auto' to let the provider detect it
+  source: string;
+  target: string;
+  libreTranslate: {
+    // Base URL of the server; requests go to <url>/translate
+    url: string;
+    apiKey: string;
+  };
+  // Gets the text on stdin and prints the translation; '{source}' and '{target}' in the
+  // arguments are replaced by the languages
+  command: {
+    command: string;
+    args: string[];
+  };
+}
+
+// Anything that turns text in one language into another
+export interface TranslationProvider {
+  readonly name: string;
+  translate(text: string, source: string, target: string): Promise<string>;
+}
+
+const TRANSLATE_TIMEOUT_MS = 15000;
+
+// LibreTranslate's /translate endpoint, also offered by compatible self-hosted servers
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly name = 'LibreTranslate';
+  private url: string;
+  private apiKey: string;
+
+  constructor(url: string, apiKey: string) {
+    this.url = url.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async translate(text: string, source: string, target: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}/translate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ q: text, source, target, format: 'text', ...(this.apiKey ? { api_key: this.apiKey } : {}) }),
+        signal: AbortSignal.timeout(TRANSLATE_TIMEOUT_MS)
+      });
+    } catch (err) {
+      throw new Error(`${this.name} at ${this.url} is not reachable: ${err instanceof Error ? err.message : err}`);
+    }
+    const body = await response.json().catch(() => null) as { translatedText?: unknown; error?: unknown } | null;
+    if (!response.ok || typeof body?.translatedText !== 'string') {
+      const reason = typeof body?.error === 'string' ? body.error : `HTTP ${response.status}`;
+      throw new Error(`${this.name} failed: ${reason}`);
+    }
+    return body.translatedText;
+  }
+}
+
+// A local program, e.g. a wrapper around an offline model; nothing leaves the machine
+export class CommandTranslationProvider implements TranslationProvider {
+  readonly name: string;
+  private command: string;
+  private args: string[];
+
+  constructor(command: string, args: string[]) {
+    this.name = command;
+    this.command = command;
+    this.args = args;
+  }
+
+  translate(text: string, source: string, target: string): Promise<string> {
+    const args = this.args.map((arg) => arg.replace('{source}', source).replace('{target}', target));
+    return new Promise((resolve, reject) => {
+      const child = execFile(this.command, args, { timeout: TRANSLATE_TIMEOUT_MS }, (err, stdout, stderr) => {
+        if (err) {
+          reject(new Error((err as NodeJS.ErrnoException).code === 'ENOENT'
+            ? `${this.command} is not installed or not on PATH`
+            : `${this.command} failed: ${stderr.toString().trim() || err.message}`));
+          return;
+        }
+        resolve(stdout.toString().trim());
+      });
+      child.stdin?.end(text);
+    });
+  }
+}
+
+export function createTranslationProvider(settings: TranslationSettings): TranslationProvider {
+  switch (settings.provider) {
+    case 'libretranslate':
+      return new LibreTranslateProvider(settings.libreTranslate.url, settings.libreTranslate.apiKey);
+    case 'command':
+      if (!settings.command.command) {
+        throw new Error('No translation command is set');
+      }
+      return new CommandTranslationProvider(settings.command.command, settings.command.args);
+  }
+}
+
+const MAX_CACHED = 500;
+
+// Remembers translations per provider, languages and text, so a line shown again by watch mode
+// or re-opened from history is not sent again. Concurrent requests for the same text share one call.
+export class Translator {
+  private cache = new Map<string, Promise<string>>();
+
+  translate(provider: TranslationProvider, text: string, source: string, target: string): Promise<string> {
+    const key = JSON.stringify([provider.name, source, target, text]);
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Most recently used last, so the oldest entry is the first to go
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    const translation = provider.translate(text, source, target);
+    this.cache.set(key, translation);
+    // Failures are not cached; the next request tries again
+    translation.catch(() => this.cache.delete(key));
+    if (this.cache.size > MAX_CACHED) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return translation;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
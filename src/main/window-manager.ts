@@ -1,11 +1,39 @@
 import { BrowserWindow, screen } from 'electron';
 import { execSync } from 'child_process';
 import * as path from 'path';
-import { OCRData, WindowBounds } from './ocr-bridge';
+import { Rect, placeOverlay, physicalToScreen } from './coordinates';
+import { EngineStatus, OCRData, ScanRegion, WindowBounds } from './ocr-engine';
+import { OCRDiff } from './ocr-diff';
+import { ProfilesState } from './profiles';
+import { OverlaySettings, Settings } from './settings';
+import { WindowTracker } from './window-tracker';
+
+// One scan as the reading panel shows it; `hidden` lists the boxes the noise filter drops
+export interface PanelScan {
+  entryId: string;
+  title: string;
+  data: OCRData;
+  hidden: number[];
+}
 
 export class WindowManager {
   private overlayWindow: BrowserWindow | null = null;
+  private historyWindow: BrowserWindow | null = null;
+  private readerWindow: BrowserWindow | null = null;
+  private settingsWindow: BrowserWindow | null = null;
+  private readingPanel: BrowserWindow | null = null;
+  private overlaySettings: OverlaySettings | null = null;
+  // Resent whenever the reading panel's page (re)loads
+  private panelScan: PanelScan | null = null;
+  private panelSettings: Settings['readingPanel'] | null = null;
+  // Whether the reading panel offers translations
+  private translationEnabled = false;
+  // Target window in screen points, and where it lies in the overlay
   private currentBounds: WindowBounds | null = null;
+  private overlayViewport: Rect | null = null;
+  private tracker: WindowTracker | null = null;
+  // The overlay was hidden because the target was minimized, and comes back with it
+  private hiddenWithTarget = false;
   private targetPID: number | null = null;
   private previousPID: number | null = null;
 
@@ -34,6 +62,14 @@ export class WindowManager {
 
     // Load the overlay HTML
     this.overlayWindow.loadFile(path.join(__dirname, '../renderer/overlay/index.html'));
+    this.overlayWindow.webContents.on('did-finish-load', () => {
+      if (this.overlaySettings) {
+        this.overlayWindow?.webContents.send('overlay-settings', this.overlaySettings);
+      }
+      if (this.overlayViewport) {
+        this.overlayWindow?.webContents.send('overlay-viewport', this.overlayViewport);
+      }
+    });
 
     // Only log overlay errors
     this.overlayWindow.webContents.on('console-message', (_event, level, message) => {
@@ -53,26 +89,20 @@ export class WindowManager {
       return;
     }
 
-    this.currentBounds = bounds;
+    // SCContentFilter.contentRect is in points with a top-left origin, like Electron's screen;
+    // xdotool reports device pixels, which differ from points on HiDPI displays
+    const displays = screen.getAllDisplays();
+    const window = process.platform === 'darwin' ? bounds : physicalToScreen(bounds, displays);
+    const placement = placeOverlay(window, displays);
+    console.log('positionOverlay:', { bounds, window, placement });
 
-    // SCContentFilter.contentRect uses top-left origin (Core Graphics coordinates)
-    // which matches Electron's coordinate system - no conversion needed
-    console.log('positionOverlay:', {
-      bounds,
-      finalBounds: {
-        x: Math.round(bounds.x),
-        y: Math.round(bounds.y),
-        width: Math.round(bounds.width),
-        height: Math.round(bounds.height)
-      }
-    });
-
-    this.overlayWindow.setBounds({
-      x: Math.round(bounds.x),
-      y: Math.round(bounds.y),
-      width: Math.round(bounds.width),
-      height: Math.round(bounds.height)
-    });
+    this.currentBounds = window;
+    this.tracker?.setKnownBounds(bounds);
+    this.overlayWindow.setBounds(placement.bounds);
+    if (JSON.stringify(placement.viewport) !== JSON.stringify(this.overlayViewport)) {
+      this.overlayViewport = placement.viewport;
+      this.overlayWindow.webContents.send('overlay-viewport', placement.viewport);
+    }
   }
 
   setTargetPID(pid: number | null): void {
@@ -83,7 +113,44 @@ export class WindowManager {
     this.previousPID = pid;
   }
 
+  // Keeps the overlay on the target window while the tracker runs. After a resize the boxes no
+  // longer match what the window shows, so the overlay drops them until the next scan.
+  followTarget(tracker: WindowTracker): void {
+    this.tracker = tracker;
+    tracker.on('moved', (bounds: WindowBounds) => {
+      this.positionOverlay(bounds);
+    });
+    tracker.on('resized', (bounds: WindowBounds) => {
+      this.positionOverlay(bounds);
+      this.invalidateOCRResults('Window resized, scan again');
+    });
+    tracker.on('hidden', () => {
+      if (this.overlayWindow && !this.overlayWindow.isDestroyed() && this.overlayWindow.isVisible()) {
+        this.hideOverlay();
+        this.hiddenWithTarget = true;
+      }
+    });
+    tracker.on('shown', () => {
+      if (this.hiddenWithTarget && this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+        this.hiddenWithTarget = false;
+        // Inactive, so the game keeps focus; mouse pass-through stays as it was
+        this.overlayWindow.showInactive();
+      }
+    });
+    tracker.on('closed', () => {
+      this.hideOverlay();
+      this.invalidateOCRResults('Window closed');
+    });
+  }
+
+  invalidateOCRResults(reason: string): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.send('ocr-stale', reason);
+    }
+  }
+
   showOverlay(): void {
+    this.hiddenWithTarget = false;
     if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
       this.overlayWindow.setIgnoreMouseEvents(false);
       this.overlayWindow.show();
@@ -91,13 +158,44 @@ export class WindowManager {
   }
 
   showOverlayPassThrough(): void {
+    this.hiddenWithTarget = false;
     if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
       this.overlayWindow.setIgnoreMouseEvents(true, { forward: true });
       this.overlayWindow.showInactive();
     }
   }
 
+  focusOverlay(): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed() && this.overlayWindow.isVisible()) {
+      this.overlayWindow.setIgnoreMouseEvents(false);
+      this.overlayWindow.focus();
+    }
+  }
+
+  // Takes keyboard focus and puts the reading caret on the overlay's boxes
+  startKeyboardNavigation(): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.showOverlay();
+      this.overlayWindow.focus();
+      this.overlayWindow.webContents.send('keyboard-navigation');
+    }
+  }
+
+  // A real (trusted) mouse move with the scan modifier held, which is what makes Yomitan
+  // look up the text under the pointer; x and y are in overlay page coordinates
+  lookupAt(x: number, y: number, modifier: Settings['navigation']['lookupModifier']): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.sendInputEvent({
+        type: 'mouseMove',
+        x: Math.round(x),
+        y: Math.round(y),
+        modifiers: modifier === 'none' ? [] : [modifier]
+      });
+    }
+  }
+
   hideOverlay(): void {
+    this.hiddenWithTarget = false;
     if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
       this.overlayWindow.hide();
     }
@@ -140,9 +238,14 @@ export class WindowManager {
     }
   }
 
-  updateOCRResults(data: OCRData): void {
+  // With a diff against the scan on screen the overlay only touches the boxes that changed
+  updateOCRResults(data: OCRData, diff: OCRDiff | null = null): void {
     if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
-      this.overlayWindow.webContents.send('ocr-results', data);
+      if (diff) {
+        this.overlayWindow.webContents.send('ocr-update', { data, diff });
+      } else {
+        this.overlayWindow.webContents.send('ocr-results', data);
+      }
     }
   }
 
@@ -158,6 +261,224 @@ export class WindowManager {
     }
   }
 
+  showEngineStatus(status: EngineStatus): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.send('engine-status', status);
+    }
+  }
+
+  // Remembered so the overlay gets them again whenever its page (re)loads
+  applyOverlaySettings(settings: Settings): void {
+    this.overlaySettings = { noiseFilter: settings.noiseFilter, overlay: settings.overlay };
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.send('overlay-settings', this.overlaySettings);
+    }
+  }
+
+  // Overlay takes the mouse so the user can drag a rectangle over the target window
+  startRegionSelection(): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.showOverlay();
+      this.overlayWindow.focus();
+      this.overlayWindow.webContents.send('region-select');
+    }
+  }
+
+  showScanRegion(region: ScanRegion | null): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.send('scan-region', region);
+    }
+  }
+
+  openSettingsWindow(): void {
+    if (this.settingsWindow && !this.settingsWindow.isDestroyed()) {
+      this.settingsWindow.show();
+      this.settingsWindow.focus();
+      return;
+    }
+
+    this.settingsWindow = new BrowserWindow({
+      width: 640,
+      height: 760,
+      title: 'Settings',
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../preload/settings-preload.js')
+      }
+    });
+    this.settingsWindow.loadFile(path.join(__dirname, '../renderer/settings/index.html'));
+    this.settingsWindow.on('closed', () => {
+      this.settingsWindow = null;
+    });
+  }
+
+  notifySettingsChanged(settings: Settings): void {
+    if (this.settingsWindow && !this.settingsWindow.isDestroyed()) {
+      this.settingsWindow.webContents.send('settings-changed', settings);
+    }
+  }
+
+  notifyProfilesChanged(state: ProfilesState): void {
+    if (this.settingsWindow && !this.settingsWindow.isDestroyed()) {
+      this.settingsWindow.webContents.send('profiles-changed', state);
+    }
+  }
+
+  openHistoryWindow(): void {
+    if (this.historyWindow && !this.historyWindow.isDestroyed()) {
+      this.historyWindow.show();
+      this.historyWindow.focus();
+      return;
+    }
+
+    this.historyWindow = new BrowserWindow({
+      width: 960,
+      height: 640,
+      title: 'Scan History',
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../preload/history-preload.js')
+      }
+    });
+    this.historyWindow.loadFile(path.join(__dirname, '../renderer/history/index.html'));
+    this.historyWindow.on('closed', () => {
+      this.historyWindow = null;
+    });
+  }
+
+  notifyHistoryChanged(): void {
+    if (this.historyWindow && !this.historyWindow.isDestroyed()) {
+      this.historyWindow.webContents.send('history-changed');
+    }
+  }
+
+  // Plain transcript window; it lives in the default session so Yomitan scans it like the overlay
+  showReader(title: string, data: OCRData): void {
+    const content = { title, data };
+
+    if (this.readerWindow && !this.readerWindow.isDestroyed()) {
+      this.readerWindow.webContents.send('reader-content', content);
+      this.readerWindow.show();
+      this.readerWindow.focus();
+      return;
+    }
+
+    this.readerWindow = new BrowserWindow({
+      width: 520,
+      height: 700,
+      title: 'Reader',
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../preload/reader-preload.js')
+      }
+    });
+    this.readerWindow.loadFile(path.join(__dirname, '../renderer/reader/index.html'));
+    this.readerWindow.webContents.once('did-finish-load', () => {
+      this.readerWindow?.webContents.send('reader-content', content);
+    });
+    this.readerWindow.on('closed', () => {
+      this.readerWindow = null;
+    });
+  }
+
+  // Resizable transcript window beside the overlay; like the reader it lives in the default
+  // session so Yomitan scans it
+  toggleReadingPanel(): void {
+    if (this.readingPanel && !this.readingPanel.isDestroyed()) {
+      this.readingPanel.close();
+      return;
+    }
+
+    this.readingPanel = new BrowserWindow({
+      ...this.readingPanelBounds(),
+      title: 'Reading Panel',
+      alwaysOnTop: true,
+      minWidth: 240,
+      minHeight: 200,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../preload/panel-preload.js')
+      }
+    });
+    this.readingPanel.loadFile(path.join(__dirname, '../renderer/panel/index.html'));
+    this.readingPanel.webContents.on('did-finish-load', () => {
+      if (this.panelSettings) {
+        this.readingPanel?.webContents.send('panel-settings', this.panelSettings);
+      }
+      if (this.panelScan) {
+        this.readingPanel?.webContents.send('panel-scan', this.panelScan);
+      }
+      this.readingPanel?.webContents.send('translation-enabled', this.translationEnabled);
+    });
+    this.readingPanel.on('closed', () => {
+      this.readingPanel = null;
+    });
+  }
+
+  // Beside the overlay on whichever side has room, full height of the overlay
+  private readingPanelBounds(): { x?: number; y?: number; width: number; height: number } {
+    const width = 420;
+    if (!this.currentBounds) {
+      return { width, height: 640 };
+    }
+    const bounds = this.currentBounds;
+    const workArea = screen.getDisplayMatching({
+      x: Math.round(bounds.x),
+      y: Math.round(bounds.y),
+      width: Math.round(bounds.width),
+      height: Math.round(bounds.height)
+    }).workArea;
+    const right = bounds.x + bounds.width;
+    const x = right + width <= workArea.x + workArea.width
+      ? right
+      : Math.max(workArea.x, bounds.x - width);
+    const y = Math.max(workArea.y, bounds.y);
+    const height = Math.max(200, Math.min(bounds.height, workArea.y + workArea.height - y));
+    return { x: Math.round(x), y: Math.round(y), width, height: Math.round(height) };
+  }
+
+  updateReadingPanel(scan: PanelScan): void {
+    this.panelScan = scan;
+    if (this.readingPanel && !this.readingPanel.isDestroyed()) {
+      this.readingPanel.webContents.send('panel-scan', scan);
+    }
+  }
+
+  applyReadingPanelSettings(settings: Settings): void {
+    this.panelSettings = settings.readingPanel;
+    if (this.readingPanel && !this.readingPanel.isDestroyed()) {
+      this.readingPanel.webContents.send('panel-settings', this.panelSettings);
+    }
+  }
+
+  setTranslationEnabled(enabled: boolean): void {
+    if (enabled === this.translationEnabled) {
+      return;
+    }
+    this.translationEnabled = enabled;
+    if (this.readingPanel && !this.readingPanel.isDestroyed()) {
+      this.readingPanel.webContents.send('translation-enabled', enabled);
+    }
+  }
+
+  // Box indices of the current scan to mark on the overlay; empty clears the mark
+  highlightBoxes(indices: number[]): void {
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.webContents.send('highlight-boxes', indices);
+    }
+  }
+
+  // Marks the panel line holding this box of the given scan, or clears the mark for null
+  highlightTranscript(entryId: string, index: number | null): void {
+    if (this.readingPanel && !this.readingPanel.isDestroyed()) {
+      this.readingPanel.webContents.send('highlight-transcript', { entryId, index });
+    }
+  }
+
   getOverlayWindow(): BrowserWindow | null {
     return this.overlayWindow;
   }
@@ -171,5 +492,14 @@ export class WindowManager {
       this.overlayWindow.destroy();
       this.overlayWindow = null;
     }
+    for (const window of [this.historyWindow, this.readerWindow, this.settingsWindow, this.readingPanel]) {
+      if (window && !window.isDestroyed()) {
+        window.destroy();
+      }
+    }
+    this.historyWindow = null;
+    this.readerWindow = null;
+    this.settingsWindow = null;
+    this.readingPanel = null;
   }
 }
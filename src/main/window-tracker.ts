@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { WindowBounds, WindowState } from './ocr-engine';
+
+// Polls the picked window and reports what changed since the last poll or the last known bounds:
+// 'moved' (WindowBounds) when only its position changed, 'resized' (WindowBounds) when its size
+// changed, 'hidden' and 'shown' when it is minimized and brought back, 'focused' when its app comes
+// to the front, 'retitled' (string) when its title changes, and 'closed', after which tracking
+// stops. Polls never overlap; a failed poll (engine restarting, request cancelled) is skipped and
+// the next one runs on schedule.
+export class WindowTracker extends EventEmitter {
+  private poll: () => Promise<WindowState>;
+  private intervalMs: number;
+  private active = false;
+  // Bumped on every start/stop so a poll finishing after a restart is ignored
+  private generation = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private bounds: WindowBounds | null = null;
+  private hidden = false;
+  private windowTitle: string | null = null;
+  // Unknown until the first poll, so a window picked while in front is not reported as focused
+  private frontmost: boolean | null = null;
+
+  constructor(poll: () => Promise<WindowState>, intervalMs: number) {
+    super();
+    this.poll = poll;
+    this.intervalMs = intervalMs;
+  }
+
+  // `bounds` is where the overlay was placed for the window, if anywhere yet, and `windowTitle`
+  // the title it was picked with
+  start(bounds: WindowBounds | null, windowTitle: string | null = null): void {
+    this.stop();
+    this.active = true;
+    this.bounds = bounds;
+    this.windowTitle = windowTitle;
+    this.frontmost = null;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.active = false;
+    this.generation++;
+    this.hidden = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  // Bounds that arrived some other way, e.g. with a scan, so they are not reported again
+  setKnownBounds(bounds: WindowBounds): void {
+    this.bounds = bounds;
+  }
+
+  setInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+    if (this.active && this.timer) {
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.run(), this.intervalMs);
+  }
+
+  private async run(): Promise<void> {
+    this.timer = null;
+    const generation = this.generation;
+    try {
+      const state = await this.poll();
+      if (generation === this.generation) {
+        this.handleState(state);
+      }
+    } catch {
+      // Transient: the next poll tries again
+    }
+    if (generation === this.generation && this.active) {
+      this.schedule();
+    }
+  }
+
+  private handleState({ state, bounds, windowTitle, frontmost }: WindowState): void {
+    if (state === 'closed') {
+      this.stop();
+      this.emit('closed');
+      return;
+    }
+
+    if (state === 'hidden') {
+      if (!this.hidden) {
+        this.hidden = true;
+        this.emit('hidden');
+      }
+      return;
+    }
+
+    // Position first, so a window that comes back somewhere else shows the overlay in place
+    if (bounds) {
+      const previous = this.bounds;
+      this.bounds = bounds;
+      if (previous && !sameSize(previous, bounds)) {
+        this.emit('resized', bounds);
+      } else if (!previous || !samePosition(previous, bounds)) {
+        this.emit('moved', bounds);
+      }
+    }
+    if (this.hidden) {
+      this.hidden = false;
+      this.emit('shown');
+    }
+    if (windowTitle !== null && windowTitle !== this.windowTitle) {
+      this.windowTitle = windowTitle;
+      this.emit('retitled', windowTitle);
+    }
+    if (frontmost && this.frontmost === false) {
+      this.emit('focused');
+    }
+    this.frontmost = frontmost;
+  }
+}
+
+// Sub-point differences come from rounding between the CLI and the screen API
+function sameSize(a: WindowBounds, b: WindowBounds): boolean {
+  return Math.abs(a.width - b.width) < 1 && Math.abs(a.height - b.height) < 1;
+}
+
+function samePosition(a: WindowBounds, b: WindowBounds): boolean {
+  return Math.abs(a.x - b.x) < 1 && Math.abs(a.y - b.y) < 1;
+}
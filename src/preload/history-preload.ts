@@ -0,0 +1,15 @@
+import { contextBridge, ipcRenderer } from 'electron';
+
+contextBridge.exposeInMainWorld('ocrHistory', {
+  list: (query?: string) => ipcRenderer.invoke('history-list', query),
+  get: (id: string) => ipcRenderer.invoke('history-get', id),
+  openInOverlay: (id: string) => ipcRenderer.invoke('history-open-overlay', id),
+  openInReader: (id: string) => ipcRenderer.invoke('history-open-reader', id),
+  exportEntry: (id: string) => ipcRenderer.invoke('history-export', id),
+  delete: (id: string) => ipcRenderer.invoke('history-delete', id),
+  onChanged: (callback: () => void) => {
+    ipcRenderer.on('history-changed', () => {
+      callback();
+    });
+  }
+});
@@ -0,0 +1,41 @@
+import { contextBridge, ipcRenderer } from 'electron';
+
+export interface PanelScan {
+  entryId: string;
+  title: string;
+  data: unknown;
+  hidden: number[];
+}
+
+export interface PanelSettings {
+  fontSize: number;
+  keepScans: number;
+}
+
+contextBridge.exposeInMainWorld('ocrPanel', {
+  onScan: (callback: (scan: PanelScan) => void) => {
+    ipcRenderer.on('panel-scan', (_event, scan: PanelScan) => {
+      callback(scan);
+    });
+  },
+  onSettings: (callback: (settings: PanelSettings) => void) => {
+    ipcRenderer.on('panel-settings', (_event, settings: PanelSettings) => {
+      callback(settings);
+    });
+  },
+  // Box of the overlay under the pointer, or null when the pointer left the boxes
+  onHighlight: (callback: (highlight: { entryId: string; index: number | null }) => void) => {
+    ipcRenderer.on('highlight-transcript', (_event, highlight: { entryId: string; index: number | null }) => {
+      callback(highlight);
+    });
+  },
+  hoverLine: (entryId: string, indices: number[]) => ipcRenderer.send('panel-hover', entryId, indices),
+  // Whether the picked window's profile allows translations
+  onTranslationEnabled: (callback: (enabled: boolean) => void) => {
+    ipcRenderer.on('translation-enabled', (_event, enabled: boolean) => {
+      callback(enabled);
+    });
+  },
+  translate: (text: string): Promise<{ text?: string; error?: string }> => ipcRenderer.invoke('translate-text', text),
+  setFontSize: (fontSize: number) => ipcRenderer.invoke('settings-update', { readingPanel: { fontSize } })
+});
@@ -8,6 +8,7 @@ export interface TextObservation {
   topRight: { x: number; y: number };
   bottomRight: { x: number; y: number };
   bottomLeft: { x: number; y: number };
+  originalText?: string;
 }
 
 export interface OCRData {
@@ -16,12 +17,42 @@ export interface OCRData {
   observations: TextObservation[];
 }
 
+export interface EngineStatus {
+  state: 'running' | 'restarting' | 'failed';
+  message: string;
+}
+
+export interface ScanRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the target window lies in the overlay, in CSS pixels
+export interface OverlayViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OverlaySettings {
+  noiseFilter: { minBoxWidth: number; minBoxHeight: number; minConfidence: number };
+  overlay: { frameColor: string; frameWidth: number; boxColor: string; lowConfidence: number };
+}
+
 contextBridge.exposeInMainWorld('ocrOverlay', {
   onOCRResults: (callback: (data: OCRData) => void) => {
     ipcRenderer.on('ocr-results', (_event, data: OCRData) => {
       callback(data);
     });
   },
+  onOCRUpdate: (callback: (update: { data: OCRData; diff: unknown }) => void) => {
+    ipcRenderer.on('ocr-update', (_event, update: { data: OCRData; diff: unknown }) => {
+      callback(update);
+    });
+  },
   onLoadingState: (callback: (isLoading: boolean) => void) => {
     ipcRenderer.on('ocr-loading', (_event, isLoading: boolean) => {
       callback(isLoading);
@@ -31,5 +62,60 @@ contextBridge.exposeInMainWorld('ocrOverlay', {
     ipcRenderer.on('ocr-error', (_event, message: string) => {
       callback(message);
     });
+  },
+  onEngineStatus: (callback: (status: EngineStatus) => void) => {
+    ipcRenderer.on('engine-status', (_event, status: EngineStatus) => {
+      callback(status);
+    });
+  },
+  onRegionSelect: (callback: () => void) => {
+    ipcRenderer.on('region-select', () => {
+      callback();
+    });
+  },
+  onScanRegion: (callback: (region: ScanRegion | null) => void) => {
+    ipcRenderer.on('scan-region', (_event, region: ScanRegion | null) => {
+      callback(region);
+    });
+  },
+  selectRegion: (region: ScanRegion | null) => ipcRenderer.invoke('region-selected', region),
+  // Resolves with the corrected box, or null when the scan changed while editing
+  correctText: (index: number, expected: string, text: string): Promise<TextObservation | null> =>
+    ipcRenderer.invoke('correct-text', index, expected, text),
+  focusOverlay: () => ipcRenderer.send('focus-overlay'),
+  onKeyboardNavigation: (callback: () => void) => {
+    ipcRenderer.on('keyboard-navigation', () => {
+      callback();
+    });
+  },
+  lookupAt: (x: number, y: number) => ipcRenderer.send('lookup-at', x, y),
+  onStale: (callback: (reason: string) => void) => {
+    ipcRenderer.on('ocr-stale', (_event, reason: string) => {
+      callback(reason);
+    });
+  },
+  onViewport: (callback: (viewport: OverlayViewport) => void) => {
+    ipcRenderer.on('overlay-viewport', (_event, viewport: OverlayViewport) => {
+      callback(viewport);
+    });
+  },
+  // Box under the pointer (null when it leaves), and boxes of the line hovered in the reading panel
+  hoverBox: (index: number | null) => ipcRenderer.send('overlay-hover', index),
+  onHighlightBoxes: (callback: (indices: number[]) => void) => {
+    ipcRenderer.on('highlight-boxes', (_event, indices: number[]) => {
+      callback(indices);
+    });
+  },
+  // Translation of a line or block, if the picked window's profile allows it
+  translate: (text: string): Promise<{ text?: string; error?: string }> => ipcRenderer.invoke('translate-text', text),
+  // Adds a sentence card for the boxes; `expected` is their text as the overlay shows it
+  mine: (indices: number[], expected: string): Promise<{ noteId?: number; picture?: boolean; error?: string }> =>
+    ipcRenderer.invoke('mine-observations', indices, expected),
+  // The boxes cut out of the scan's screenshot with their text, when the screenshot was kept
+  captureCrops: (indices: number[]) => ipcRenderer.invoke('capture-crops', indices),
+  onOverlaySettings: (callback: (settings: OverlaySettings) => void) => {
+    ipcRenderer.on('overlay-settings', (_event, settings: OverlaySettings) => {
+      callback(settings);
+    });
   }
 });
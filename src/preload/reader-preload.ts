@@ -0,0 +1,14 @@
+import { contextBridge, ipcRenderer } from 'electron';
+
+export interface ReaderContent {
+  title: string;
+  data: unknown;
+}
+
+contextBridge.exposeInMainWorld('ocrReader', {
+  onContent: (callback: (content: ReaderContent) => void) => {
+    ipcRenderer.on('reader-content', (_event, content: ReaderContent) => {
+      callback(content);
+    });
+  }
+});
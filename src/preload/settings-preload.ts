@@ -0,0 +1,24 @@
+import { contextBridge, ipcRenderer } from 'electron';
+
+contextBridge.exposeInMainWorld('ocrSettings', {
+  get: () => ipcRenderer.invoke('settings-get'),
+  update: (patch: unknown) => ipcRenderer.invoke('settings-update', patch),
+  reset: () => ipcRenderer.invoke('settings-reset'),
+  onChanged: (callback: (settings: unknown) => void) => {
+    ipcRenderer.on('settings-changed', (_event, settings: unknown) => {
+      callback(settings);
+    });
+  },
+  previewPreprocessing: () => ipcRenderer.invoke('preprocess-preview'),
+  getProfiles: () => ipcRenderer.invoke('profiles-get'),
+  createProfile: (windowTitle: string) => ipcRenderer.invoke('profiles-create', windowTitle),
+  updateProfile: (id: string, changes: unknown) => ipcRenderer.invoke('profiles-update', id, changes),
+  deleteProfile: (id: string) => ipcRenderer.invoke('profiles-delete', id),
+  importProfiles: () => ipcRenderer.invoke('profiles-import'),
+  exportProfiles: () => ipcRenderer.invoke('profiles-export'),
+  onProfilesChanged: (callback: (state: unknown) => void) => {
+    ipcRenderer.on('profiles-changed', (_event, state: unknown) => {
+      callback(state);
+    });
+  }
+});
@@ -0,0 +1,119 @@
+interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface HistorySummary {
+  id: string;
+  timestamp: number;
+  appName: string | null;
+  windowTitle: string | null;
+  bounds: WindowBounds | null;
+  observationCount: number;
+  text: string;
+}
+
+interface OcrHistoryAPI {
+  list: (query?: string) => Promise<HistorySummary[]>;
+  openInOverlay: (id: string) => Promise<boolean>;
+  openInReader: (id: string) => Promise<boolean>;
+  exportEntry: (id: string) => Promise<boolean>;
+  delete: (id: string) => Promise<void>;
+  onChanged: (callback: () => void) => void;
+}
+
+declare const ocrHistory: OcrHistoryAPI;
+
+const historySearch = document.getElementById('history-search') as HTMLInputElement;
+const historyList = document.getElementById('history-list')!;
+const historyDetail = document.getElementById('history-detail')!;
+const historyDetailTitle = document.getElementById('history-detail-title')!;
+const historyDetailText = document.getElementById('history-detail-text')!;
+
+let selectedEntryId: string | null = null;
+let searchTimer: ReturnType<typeof setTimeout> | null = null;
+
+function describeSource(summary: HistorySummary): string {
+  const source = [summary.appName, summary.windowTitle].filter(Boolean).join(' — ');
+  return source || 'Unknown window';
+}
+
+function selectEntry(summary: HistorySummary | null): void {
+  selectedEntryId = summary?.id ?? null;
+  historyDetail.classList.toggle('empty', !summary);
+  if (summary) {
+    historyDetailTitle.textContent =
+      `${new Date(summary.timestamp).toLocaleString()} · ${describeSource(summary)} · ${summary.observationCount} boxes`;
+    historyDetailText.textContent = summary.text;
+  }
+
+  for (const item of Array.from(historyList.children) as HTMLElement[]) {
+    item.classList.toggle('selected', item.dataset.id === selectedEntryId);
+  }
+}
+
+async function refreshHistory(): Promise<void> {
+  const summaries = await ocrHistory.list(historySearch.value);
+  historyList.innerHTML = '';
+
+  for (const summary of summaries) {
+    const item = document.createElement('li');
+    item.dataset.id = summary.id;
+
+    const meta = document.createElement('div');
+    meta.className = 'history-meta';
+    meta.textContent = `${new Date(summary.timestamp).toLocaleString()} · ${describeSource(summary)}`;
+
+    const preview = document.createElement('div');
+    preview.className = 'history-preview';
+    preview.textContent = summary.text.replace(/\s+/g, ' ') || '(no text)';
+
+    item.append(meta, preview);
+    item.addEventListener('click', () => selectEntry(summary));
+    item.addEventListener('dblclick', () => ocrHistory.openInOverlay(summary.id));
+    historyList.appendChild(item);
+  }
+
+  selectEntry(summaries.find((summary) => summary.id === selectedEntryId) ?? null);
+}
+
+historySearch.addEventListener('input', () => {
+  if (searchTimer) {
+    clearTimeout(searchTimer);
+  }
+  searchTimer = setTimeout(refreshHistory, 150);
+});
+
+document.getElementById('open-overlay')!.addEventListener('click', () => {
+  if (selectedEntryId) {
+    ocrHistory.openInOverlay(selectedEntryId);
+  }
+});
+
+document.getElementById('open-reader')!.addEventListener('click', () => {
+  if (selectedEntryId) {
+    ocrHistory.openInReader(selectedEntryId);
+  }
+});
+
+document.getElementById('export-entry')!.addEventListener('click', () => {
+  if (selectedEntryId) {
+    ocrHistory.exportEntry(selectedEntryId);
+  }
+});
+
+document.getElementById('delete-entry')!.addEventListener('click', async () => {
+  if (selectedEntryId) {
+    await ocrHistory.delete(selectedEntryId);
+    await refreshHistory();
+  }
+});
+
+// New scans show up while the window is open
+ocrHistory.onChanged(() => {
+  refreshHistory();
+});
+
+refreshHistory();
@@ -1,23 +1,58 @@
-interface TextObservation {
-  text: string;
-  confidence: number;
-  boundingBox: { x: number; y: number; width: number; height: number };
-  topLeft: { x: number; y: number };
-  topRight: { x: number; y: number };
-  bottomRight: { x: number; y: number };
-  bottomLeft: { x: number; y: number };
+interface EngineStatus {
+  state: 'running' | 'restarting' | 'failed';
+  message: string;
+}
+
+interface OverlaySettings {
+  noiseFilter: { minBoxWidth: number; minBoxHeight: number; minConfidence: number };
+  overlay: { frameColor: string; frameWidth: number; boxColor: string; lowConfidence: number };
 }
 
-interface OCRData {
-  imageWidth: number;
-  imageHeight: number;
-  observations: TextObservation[];
+// Normalized like boundingBox (bottom-left origin)
+interface ScanRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 interface OcrOverlayAPI {
   onOCRResults: (callback: (data: OCRData) => void) => void;
+  onOCRUpdate: (callback: (update: { data: OCRData; diff: OCRDiff }) => void) => void;
   onLoadingState: (callback: (isLoading: boolean) => void) => void;
   onError: (callback: (message: string) => void) => void;
+  onEngineStatus: (callback: (status: EngineStatus) => void) => void;
+  onOverlaySettings: (callback: (settings: OverlaySettings) => void) => void;
+  onRegionSelect: (callback: () => void) => void;
+  onScanRegion: (callback: (region: ScanRegion | null) => void) => void;
+  selectRegion: (region: ScanRegion | null) => Promise<void>;
+  correctText: (index: number, expected: string, text: string) => Promise<TextObservation | null>;
+  focusOverlay: () => void;
+  onKeyboardNavigation: (callback: () => void) => void;
+  lookupAt: (x: number, y: number) => void;
+  onViewport: (callback: (viewport: ViewRect) => void) => void;
+  onStale: (callback: (reason: string) => void) => void;
+  hoverBox: (index: number | null) => void;
+  onHighlightBoxes: (callback: (indices: number[]) => void) => void;
+  translate: (text: string) => Promise<TranslationResult>;
+  mine: (indices: number[], expected: string) => Promise<MiningResult>;
+  captureCrops: (indices: number[]) => Promise<{ crops?: CaptureCrop[]; error?: string }>;
+}
+
+// A box cut out of the scan's screenshot, with what was read from it
+interface CaptureCrop {
+  index: number;
+  image: string;
+  text: string;
+  confidence: number;
+}
+
+// Reply to a mining request: the new note, or why none was added
+interface MiningResult {
+  noteId?: number;
+  // Whether the card got a picture of the boxes
+  picture?: boolean;
+  error?: string;
 }
 
 declare const ocrOverlay: OcrOverlayAPI;
@@ -28,6 +63,12 @@ console.log('window.ocrOverlay:', ocrOverlay);
 const container = document.getElementById('ocr-container')!;
 const loadingIndicator = document.getElementById('loading-indicator')!;
 const errorMessage = document.getElementById('error-message')!;
+const engineStatus = document.getElementById('engine-status')!;
+const regionFrame = document.getElementById('region-frame')!;
+const regionSelection = document.getElementById('region-selection')!;
+const readingCaret = document.getElementById('reading-caret')!;
+const translationBubble = document.getElementById('translation-bubble')!;
+const cropInspector = document.getElementById('crop-inspector')!;
 
 if (!ocrOverlay) {
   console.error('ERROR: ocrOverlay API not available! Preload script may not have loaded.');
@@ -55,15 +96,88 @@ function showError(message: string): void {
   }, 5000);
 }
 
+let engineStatusTimer: ReturnType<typeof setTimeout> | null = null;
+
+function showEngineStatus(status: EngineStatus): void {
+  if (engineStatusTimer) {
+    clearTimeout(engineStatusTimer);
+    engineStatusTimer = null;
+  }
+  engineStatus.textContent = status.message;
+  engineStatus.className = status.state;
+  // Restart notices go away by themselves, a failed engine stays visible
+  if (status.state === 'running') {
+    engineStatusTimer = setTimeout(() => {
+      engineStatus.classList.add('hidden');
+    }, 3000);
+  }
+}
+
+let currentData: OCRData | null = null;
+// Defaults until main sends the stored settings
+let overlaySettings: OverlaySettings = {
+  noiseFilter: { minBoxWidth: 10, minBoxHeight: 8, minConfidence: 0 },
+  overlay: { frameColor: '#ff0000', frameWidth: 3, boxColor: '#ff0000', lowConfidence: 0.5 }
+};
+
+function applyOverlaySettings(settings: OverlaySettings): void {
+  overlaySettings = settings;
+  const style = document.documentElement.style;
+  style.setProperty('--frame-color', settings.overlay.frameColor);
+  style.setProperty('--frame-width', `${settings.overlay.frameWidth}px`);
+  style.setProperty('--box-color', settings.overlay.boxColor);
+  // The noise filter decides which boxes exist and which are marked, so the current scan is drawn again
+  if (editingSpan) {
+    deferredData = deferredData ?? currentData;
+  } else if (currentData) {
+    renderOCRResults(currentData);
+  }
+}
+
+// The target window in overlay CSS pixels, from the main process. It differs from the overlay
+// when the window is partly off-screen; until main sends it the overlay is the window.
+let overlayViewport: ViewRect | null = null;
+
+function currentViewport(): ViewRect {
+  return overlayViewport ?? { x: 0, y: 0, width: container.clientWidth, height: container.clientHeight };
+}
+
+function setOverlayViewport(viewport: ViewRect): void {
+  overlayViewport = viewport;
+  // Boxes and the scan region are placed against the viewport, so both are drawn again
+  showScanRegion(currentScanRegion);
+  if (editingSpan) {
+    deferredData = deferredData ?? currentData;
+  } else if (currentData) {
+    renderOCRResults(currentData);
+  }
+}
+
 function clearOverlay(): void {
   container.innerHTML = '';
 }
 
-function calculateRotation(obs: TextObservation): number {
-  // Calculate rotation angle from the quadrilateral
-  const dx = obs.topRight.x - obs.topLeft.x;
-  const dy = obs.topRight.y - obs.topLeft.y;
-  return Math.atan2(-dy, dx) * (180 / Math.PI);
+// Orientation from the layout analysis, or a tall-box guess when there is none
+function observationOrientation(data: OCRData, index: number, width: number, height: number): TextOrientation {
+  const fromLayout = data.layout?.orientations[index];
+  if (fromLayout) {
+    return fromLayout;
+  }
+  return [...data.observations[index].text].length > 1 && height > width * 1.5 ? 'vertical' : 'horizontal';
+}
+
+function calculateRotation(obs: TextObservation, orientation: TextOrientation, viewport: ViewRect): number {
+  // Calculate rotation angle from the quadrilateral, in pixels since the normalized axes differ in scale
+  const dx = (obs.topRight.x - obs.topLeft.x) * viewport.width;
+  const dy = (obs.topRight.y - obs.topLeft.y) * viewport.height;
+  const angle = Math.atan2(-dy, dx) * (180 / Math.PI);
+
+  // Vertical text whose baseline already points down is drawn by the writing mode,
+  // only the remaining tilt needs a transform
+  if (orientation === 'vertical' && Math.abs(angle - 90) < 30) {
+    return angle - 90;
+  }
+  return angle;
 }
 
 function fitTextToWidth(span: HTMLSpanElement, targetWidth: number, maxFontSize: number): void {
@@ -85,66 +199,693 @@ function fitTextToWidth(span: HTMLSpanElement, targetWidth: number, maxFontSize:
   span.style.fontSize = `${finalSize}px`;
 }
 
-function renderOCRResults(data: OCRData): void {
-  clearOverlay();
+function fitTextToHeight(span: HTMLSpanElement, targetHeight: number, maxFontSize: number): void {
+  const MIN_FONT_SIZE = 8;
 
-  const overlayWidth = container.clientWidth;
-  const overlayHeight = container.clientHeight;
+  // Start with max font size (column width)
+  span.style.fontSize = `${maxFontSize}px`;
 
-  for (const obs of data.observations) {
-    // Vision framework uses bottom-left origin, so we need to flip Y
-    // boundingBox.y is the bottom of the text in Vision coordinates
-    const baseX = obs.boundingBox.x * overlayWidth;
-    const baseY = (1 - obs.boundingBox.y - obs.boundingBox.height) * overlayHeight;
-    const baseWidth = obs.boundingBox.width * overlayWidth;
-    const baseHeight = obs.boundingBox.height * overlayHeight;
+  let measuredHeight = span.scrollHeight;
+  if (measuredHeight > targetHeight) {
+    const scaledSize = maxFontSize * (targetHeight / measuredHeight);
+    span.style.fontSize = `${Math.max(scaledSize, MIN_FONT_SIZE)}px`;
+    measuredHeight = span.scrollHeight;
+  }
 
-    // Skip very small boxes that are likely noise
-    if (baseWidth < 10 || baseHeight < 8) {
-      continue;
-    }
+  // Spread short columns over the whole box so each character sits over its glyph
+  // in the target window, which keeps hover and selection where the user expects them
+  const charCount = [...(span.textContent ?? '')].length;
+  if (charCount > 1 && measuredHeight < targetHeight) {
+    span.style.letterSpacing = `${(targetHeight - measuredHeight) / charCount}px`;
+  }
+}
 
-    // Expand box by 1px in each direction for better coverage
-    const x = baseX - 1;
-    const y = baseY - 1;
-    const width = baseWidth + 2;
-    const height = baseHeight + 2;
+// Block and line of every observation, for the data attributes on its span
+function layoutPositions(data: OCRData): Map<number, { block: number; line: number }> {
+  const positions = new Map<number, { block: number; line: number }>();
+  data.layout?.blocks.forEach((block, blockIndex) => {
+    block.lines.forEach((line, lineIndex) => {
+      for (const index of line.observations) {
+        positions.set(index, { block: blockIndex, line: lineIndex });
+      }
+    });
+  });
+  return positions;
+}
 
-    const span = document.createElement('span');
-    span.className = 'ocr-text';
+// Same rule as isNoise in the main process, which filters history, export and text output
+function isNoiseBox(obs: TextObservation, width: number, height: number): boolean {
+  const filter = overlaySettings.noiseFilter;
+  return width < filter.minBoxWidth || height < filter.minBoxHeight || obs.confidence < filter.minConfidence;
+}
+
+// Lay out a span that is already in the container over observation `index`.
+// Returns false for boxes the noise filter hides.
+function placeSpan(
+  span: HTMLSpanElement,
+  data: OCRData,
+  index: number,
+  positions: Map<number, { block: number; line: number }>
+): boolean {
+  const viewport = currentViewport();
+  const obs = data.observations[index];
+  const { x: baseX, y: baseY, width: baseWidth, height: baseHeight } = normalizedToView(obs.boundingBox, viewport);
+
+  // Skip very small or unsure boxes that are likely noise
+  if (isNoiseBox(obs, baseWidth, baseHeight)) {
+    return false;
+  }
+
+  // Expand box by 1px in each direction for better coverage
+  const x = baseX - 1;
+  const y = baseY - 1;
+  const width = baseWidth + 2;
+  const height = baseHeight + 2;
+
+  span.className = 'ocr-text';
+  span.removeAttribute('style');
+  // Replacing the text node would drop a selection inside it, so unchanged text is left alone
+  if (span.textContent !== obs.text) {
     span.textContent = obs.text;
+  }
+  span.dataset.index = String(index);
+  const position = positions.get(index);
+  if (position) {
+    span.dataset.block = String(position.block);
+    span.dataset.line = String(position.line);
+  } else {
+    delete span.dataset.block;
+    delete span.dataset.line;
+  }
 
-    // Calculate rotation from quadrilateral points
-    const rotation = calculateRotation(obs);
+  const orientation = observationOrientation(data, index, baseWidth, baseHeight);
+  if (orientation === 'vertical') {
+    span.classList.add('vertical');
+  }
+  const notes: string[] = [];
+  if (obs.confidence < overlaySettings.overlay.lowConfidence) {
+    span.classList.add('low-confidence');
+    notes.push(`Confidence ${Math.round(obs.confidence * 100)}%`);
+  }
+  if (obs.originalText !== undefined) {
+    span.classList.add('corrected');
+    notes.push(`Recognized as ${obs.originalText}`);
+  }
+  if (notes.length > 0) {
+    span.title = notes.join('\n');
+  } else {
+    span.removeAttribute('title');
+  }
 
-    span.style.left = `${x}px`;
-    span.style.top = `${y}px`;
-    span.style.width = `${width}px`;
-    span.style.height = `${height}px`;
+  // Calculate rotation from quadrilateral points
+  const rotation = calculateRotation(obs, orientation, viewport);
 
-    // Apply rotation if text is tilted
-    if (Math.abs(rotation) > 0.5) {
-      span.style.transformOrigin = 'left top';
-      span.style.transform = `rotate(${rotation}deg)`;
-    }
+  span.style.left = `${x}px`;
+  span.style.top = `${y}px`;
+  span.style.width = `${width}px`;
+  span.style.height = `${height}px`;
 
-    // Add to DOM first so we can measure
-    container.appendChild(span);
+  // Apply rotation if text is tilted
+  if (Math.abs(rotation) > 0.5) {
+    // vertical-rl lines start at the right edge of the box
+    span.style.transformOrigin = orientation === 'vertical' ? 'right top' : 'left top';
+    span.style.transform = `rotate(${rotation}deg)`;
+  }
 
+  if (orientation === 'vertical') {
+    // Fit text to bounding box height, with max size based on width
+    fitTextToHeight(span, height, width);
+  } else {
     // Fit text to bounding box width, with max size based on height
     fitTextToWidth(span, width, height);
   }
+  return true;
+}
+
+function renderOCRResults(data: OCRData): void {
+  clearOverlay();
+  clearCaret();
+  currentData = data;
+
+  // Spans are added in reading order so that native selection follows it too
+  const order = data.layout?.order ?? data.observations.map((_, i) => i);
+  const positions = layoutPositions(data);
+
+  for (const index of order) {
+    const span = document.createElement('span');
+    // Add to DOM first so we can measure
+    container.appendChild(span);
+    if (!placeSpan(span, data, index, positions)) {
+      span.remove();
+    }
+  }
 
   console.log(`Rendered ${data.observations.length} text regions`);
 }
 
+// Watch mode re-scans: boxes matched to the previous scan keep their span, so hover and
+// selection survive; only changed, added and removed boxes are touched.
+function updateOCRResults(data: OCRData, diff: OCRDiff): void {
+  if (!currentData) {
+    renderOCRResults(data);
+    return;
+  }
+
+  const spansByIndex = new Map<number, HTMLSpanElement>();
+  for (const span of Array.from(container.querySelectorAll<HTMLSpanElement>('.ocr-text'))) {
+    spansByIndex.set(Number(span.dataset.index), span);
+  }
+  const previousOf = new Map(diff.matches.map((match) => [match.next, match.previous]));
+
+  const order = data.layout?.order ?? data.observations.map((_, i) => i);
+  const positions = layoutPositions(data);
+  const kept = new Set<HTMLSpanElement>();
+  const ordered: HTMLSpanElement[] = [];
+  for (const index of order) {
+    const previous = previousOf.get(index);
+    let span = previous !== undefined ? spansByIndex.get(previous) : undefined;
+    if (!span) {
+      span = document.createElement('span');
+      container.appendChild(span);
+    }
+    if (placeSpan(span, data, index, positions)) {
+      kept.add(span);
+      ordered.push(span);
+    } else {
+      span.remove();
+    }
+  }
+  for (const span of spansByIndex.values()) {
+    if (!kept.has(span)) {
+      span.remove();
+    }
+  }
+
+  // Moving nodes clears the selection, so reading order is only restored when it changed
+  const current = Array.from(container.children);
+  if (current.length !== ordered.length || ordered.some((span, i) => current[i] !== span)) {
+    for (const span of ordered) {
+      container.appendChild(span);
+    }
+  }
+
+  currentData = data;
+  // The caret stays on its box if that box survived the re-scan
+  if (caretSpan?.isConnected) {
+    setCaret(caretSpan, caretOffset, false);
+  } else {
+    clearCaret();
+  }
+  console.log(`Updated text regions: ${diff.added.length} added, ${diff.removed.length} removed, ` +
+    `${diff.matches.filter((match) => match.changed).length} changed`);
+}
+
+// Drags shorter than this (a click) clear the region instead
+const MIN_REGION_SIZE = 5;
+
+let selectingRegion = false;
+let regionDragStart: { x: number; y: number } | null = null;
+let currentScanRegion: ScanRegion | null = null;
+
+function showScanRegion(region: ScanRegion | null): void {
+  currentScanRegion = region;
+  regionFrame.classList.toggle('hidden', !region);
+  if (region) {
+    const rect = normalizedToView(region, currentViewport());
+    regionFrame.style.left = `${rect.x}px`;
+    regionFrame.style.top = `${rect.y}px`;
+    regionFrame.style.width = `${rect.width}px`;
+    regionFrame.style.height = `${rect.height}px`;
+  }
+}
+
+function setSelectingRegion(selecting: boolean): void {
+  selectingRegion = selecting;
+  regionDragStart = null;
+  document.body.classList.toggle('selecting-region', selecting);
+  regionSelection.classList.add('hidden');
+}
+
+function dragRect(event: MouseEvent): { left: number; top: number; width: number; height: number } {
+  const start = regionDragStart!;
+  return {
+    left: Math.min(start.x, event.clientX),
+    top: Math.min(start.y, event.clientY),
+    width: Math.abs(event.clientX - start.x),
+    height: Math.abs(event.clientY - start.y)
+  };
+}
+
+document.addEventListener('mousedown', (event: MouseEvent) => {
+  if (!selectingRegion) {
+    return;
+  }
+  event.preventDefault();
+  regionDragStart = { x: event.clientX, y: event.clientY };
+});
+
+document.addEventListener('mousemove', (event: MouseEvent) => {
+  if (!selectingRegion || !regionDragStart) {
+    return;
+  }
+  const rect = dragRect(event);
+  regionSelection.classList.remove('hidden');
+  regionSelection.style.left = `${rect.left}px`;
+  regionSelection.style.top = `${rect.top}px`;
+  regionSelection.style.width = `${rect.width}px`;
+  regionSelection.style.height = `${rect.height}px`;
+});
+
+document.addEventListener('mouseup', (event: MouseEvent) => {
+  if (!selectingRegion || !regionDragStart) {
+    return;
+  }
+  const rect = dragRect(event);
+  setSelectingRegion(false);
+
+  // Only the part of the drag that covers the window counts
+  const region = rect.width < MIN_REGION_SIZE || rect.height < MIN_REGION_SIZE
+    ? null
+    : clampToUnit(viewToNormalized({ x: rect.left, y: rect.top, width: rect.width, height: rect.height }, currentViewport()));
+  ocrOverlay.selectRegion(region);
+});
+
+// Hiding the overlay or switching away abandons the selection
+window.addEventListener('blur', () => {
+  if (selectingRegion) {
+    setSelectingRegion(false);
+  }
+});
+
+// Copying a selection across several boxes keeps line breaks and block gaps.
+// Boxes touched by the selection are copied whole; within one box the default copy applies.
+document.addEventListener('copy', (event: ClipboardEvent) => {
+  const selection = window.getSelection();
+  if (!currentData || !selection || selection.isCollapsed) {
+    return;
+  }
+
+  const selected = Array.from(container.querySelectorAll<HTMLSpanElement>('.ocr-text'))
+    .filter((span) => selection.containsNode(span, true));
+  if (selected.length < 2) {
+    return;
+  }
+
+  const indices = new Set(selected.map((span) => Number(span.dataset.index)));
+  event.clipboardData?.setData('text/plain', textForObservations(currentData, indices));
+  event.preventDefault();
+});
+
+// Box whose text is being corrected; scans arriving meanwhile wait in deferredData
+let editingSpan: HTMLSpanElement | null = null;
+let editingText = '';
+let deferredData: OCRData | null = null;
+
+// Right-click turns a box into a text field; Enter saves, Escape or clicking elsewhere cancels
+function startEditing(span: HTMLSpanElement): void {
+  if (!currentData) {
+    return;
+  }
+  editingSpan = span;
+  editingText = currentData.observations[Number(span.dataset.index)].text;
+  span.classList.add('editing');
+  span.contentEditable = 'plaintext-only';
+  ocrOverlay.focusOverlay();
+  span.focus();
+  window.getSelection()?.selectAllChildren(span);
+}
+
+async function finishEditing(save: boolean): Promise<void> {
+  const span = editingSpan;
+  if (!span) {
+    return;
+  }
+  editingSpan = null;
+  span.removeAttribute('contenteditable');
+  span.classList.remove('editing');
+
+  const index = Number(span.dataset.index);
+  const text = span.textContent ?? '';
+  span.textContent = editingText;
+  if (save && text !== editingText) {
+    const corrected = await ocrOverlay.correctText(index, editingText, text);
+    if (!corrected) {
+      showError('The scan changed while editing, the correction was not saved');
+    } else if (currentData && !deferredData) {
+      currentData.observations[index] = corrected;
+      placeSpan(span, currentData, index, layoutPositions(currentData));
+    }
+  }
+
+  // Later scans already carry the correction, main applies it to every scan of this app
+  if (deferredData && !editingSpan) {
+    const data = deferredData;
+    deferredData = null;
+    renderOCRResults(data);
+  }
+}
+
+// The target window was resized or closed, so its boxes no longer line up with it. The next
+// scan is drawn whole, also when it arrives as a watch-mode update.
+function dropStaleResults(reason: string): void {
+  deferredData = null;
+  finishEditing(false);
+  clearOverlay();
+  clearCaret();
+  currentData = null;
+  showError(reason);
+}
+
+// Shift+right-click mines the box's line instead
+container.addEventListener('contextmenu', (event: MouseEvent) => {
+  const span = (event.target as HTMLElement).closest<HTMLSpanElement>('.ocr-text');
+  if (!span || selectingRegion || span === editingSpan) {
+    return;
+  }
+  event.preventDefault();
+  if (event.shiftKey) {
+    mineSpans(spansAround(span, 'line'));
+    return;
+  }
+  finishEditing(false).then(() => {
+    if (span.isConnected) {
+      startEditing(span);
+    }
+  });
+});
+
+container.addEventListener('keydown', (event: KeyboardEvent) => {
+  if (!editingSpan || event.isComposing) {
+    return;
+  }
+  if (event.key === 'Enter') {
+    event.preventDefault();
+    finishEditing(true);
+  } else if (event.key === 'Escape') {
+    event.preventDefault();
+    finishEditing(false);
+  }
+});
+
+container.addEventListener('focusout', () => {
+  finishEditing(false);
+});
+
+// Keyboard reading: a caret that walks through the boxes in reading order one character at a
+// time and asks Yomitan to look up the text at each step
+let caretSpan: HTMLSpanElement | null = null;
+let caretOffset = 0;
+
+// Boxes on screen; they are kept in the container in reading order
+function navigableSpans(): HTMLSpanElement[] {
+  return Array.from(container.querySelectorAll<HTMLSpanElement>('.ocr-text'));
+}
+
+function clearCaret(): void {
+  caretSpan?.classList.remove('current');
+  caretSpan = null;
+  readingCaret.classList.add('hidden');
+  hideTranslation();
+  hideCrops();
+}
+
+function setCaret(span: HTMLSpanElement, offset: number, lookup: boolean = true): void {
+  const text = span.firstChild;
+  if (!text || text.nodeType !== Node.TEXT_NODE) {
+    return;
+  }
+  const length = text.textContent!.length;
+  if (span !== caretSpan) {
+    hideTranslation();
+    hideCrops();
+  }
+  caretSpan?.classList.remove('current');
+  caretSpan = span;
+  caretOffset = Math.max(0, Math.min(offset, length - 1));
+  span.classList.add('current');
+
+  // The range's rect already includes the box's rotation and vertical writing
+  const range = document.createRange();
+  range.setStart(text, caretOffset);
+  range.setEnd(text, Math.min(caretOffset + 1, length));
+  const rect = range.getBoundingClientRect();
+  readingCaret.classList.remove('hidden');
+  readingCaret.style.left = `${rect.left}px`;
+  readingCaret.style.top = `${rect.top}px`;
+  readingCaret.style.width = `${rect.width}px`;
+  readingCaret.style.height = `${rect.height}px`;
+
+  if (lookup) {
+    ocrOverlay.lookupAt(rect.left + rect.width / 2, rect.top + rect.height / 2);
+  }
+}
+
+// Moves to the box `delta` boxes away, at its first character or, going back by character, its last
+function moveToBox(delta: number, atEnd: boolean = false): void {
+  const spans = navigableSpans();
+  if (spans.length === 0) {
+    return;
+  }
+  const current = caretSpan ? spans.indexOf(caretSpan) : -1;
+  const next = current < 0 ? (delta < 0 ? spans.length - 1 : 0) : current + delta;
+  if (next < 0 || next >= spans.length) {
+    return;
+  }
+  setCaret(spans[next], atEnd ? Infinity : 0);
+}
+
+function moveCaret(delta: number): void {
+  if (!caretSpan) {
+    moveToBox(1);
+    return;
+  }
+  const length = caretSpan.textContent?.length ?? 0;
+  const offset = caretOffset + delta;
+  if (offset < 0) {
+    moveToBox(-1, true);
+  } else if (offset >= length) {
+    moveToBox(1);
+  } else {
+    setCaret(caretSpan, offset);
+  }
+}
+
+// Boxes of the line or block a box is in; a box outside the layout stands alone
+function spansAround(box: HTMLSpanElement, scope: 'line' | 'block'): HTMLSpanElement[] {
+  const { block, line } = box.dataset;
+  return navigableSpans().filter((span) =>
+    block === undefined
+      ? span === box
+      : span.dataset.block === block && (scope === 'block' || span.dataset.line === line));
+}
+
+function flashSpans(spans: HTMLSpanElement[], className: string): void {
+  for (const span of spans) {
+    span.classList.add(className);
+    setTimeout(() => span.classList.remove(className), 400);
+  }
+}
+
+// Copies the caret's line or block in reading order and briefly highlights what was copied
+function copyAtCaret(scope: 'line' | 'block'): void {
+  if (!caretSpan || !currentData) {
+    return;
+  }
+  const spans = spansAround(caretSpan, scope);
+  const indices = new Set(spans.map((span) => Number(span.dataset.index)));
+  navigator.clipboard.writeText(textForObservations(currentData, indices)).catch((err) => {
+    showError(`Copy failed: ${err instanceof Error ? err.message : err}`);
+  });
+  flashSpans(spans, 'copied');
+}
+
+// Sends the line or block to Anki as a sentence card; the boxes flash once the note is added
+async function mineSpans(spans: HTMLSpanElement[]): Promise<void> {
+  if (!currentData || spans.length === 0) {
+    return;
+  }
+  const indices = spans.map((span) => Number(span.dataset.index));
+  const result = await ocrOverlay.mine(indices, textForObservations(currentData, new Set(indices)));
+  if (result.error !== undefined) {
+    showError(result.error);
+  } else {
+    flashSpans(spans.filter((span) => span.isConnected), 'mined');
+  }
+}
+
+// Bumped for every translation asked for or hidden, so a late reply is dropped
+let translationRequest = 0;
+
+function hideTranslation(): void {
+  translationRequest++;
+  translationBubble.classList.add('hidden');
+}
+
+// Puts a shown element below the boxes, or above them when there is no room below
+function placeBelowSpans(element: HTMLElement, spans: HTMLSpanElement[]): void {
+  const rects = spans.map((span) => span.getBoundingClientRect());
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const bottom = Math.max(...rects.map((rect) => rect.bottom));
+  const height = element.offsetHeight;
+  const width = element.offsetWidth;
+  element.style.left = `${Math.max(0, Math.min(left, window.innerWidth - width))}px`;
+  element.style.top = `${bottom + 4 + height <= window.innerHeight ? bottom + 4 : Math.max(0, top - 4 - height)}px`;
+}
+
+function showTranslation(spans: HTMLSpanElement[], text: string, pending: boolean): void {
+  translationBubble.textContent = text;
+  translationBubble.classList.toggle('pending', pending);
+  translationBubble.classList.remove('hidden');
+  placeBelowSpans(translationBubble, spans);
+}
+
+// Shows the translation of the caret's line or block until the caret moves to another box
+async function translateAtCaret(scope: 'line' | 'block'): Promise<void> {
+  if (!caretSpan || !currentData) {
+    return;
+  }
+  const spans = spansAround(caretSpan, scope);
+  const text = textForObservations(currentData, new Set(spans.map((span) => Number(span.dataset.index))));
+  const request = ++translationRequest;
+  showTranslation(spans, 'Translating…', true);
+  const result = await ocrOverlay.translate(text);
+  if (request !== translationRequest) {
+    return;
+  }
+  if (result.error !== undefined) {
+    hideTranslation();
+    showError(result.error);
+  } else {
+    showTranslation(spans, result.text ?? '', false);
+  }
+}
+
+// Bumped for every crop view asked for or hidden, so a late reply is dropped
+let cropsRequest = 0;
+
+function hideCrops(): void {
+  cropsRequest++;
+  cropInspector.classList.add('hidden');
+}
+
+// Shows each box of the caret's line or block as captured next to the text read from it, to see
+// why a box was misread
+async function showCropsAtCaret(scope: 'box' | 'block'): Promise<void> {
+  if (!caretSpan) {
+    return;
+  }
+  const spans = scope === 'box' ? [caretSpan] : spansAround(caretSpan, 'block');
+  const request = ++cropsRequest;
+  const result = await ocrOverlay.captureCrops(spans.map((span) => Number(span.dataset.index)));
+  if (request !== cropsRequest) {
+    return;
+  }
+  if (result.error !== undefined || !result.crops) {
+    hideCrops();
+    showError(result.error ?? 'No screenshot for this scan');
+    return;
+  }
+  cropInspector.replaceChildren(...result.crops.map((crop) => {
+    const row = document.createElement('div');
+    row.className = 'crop-row';
+    const image = document.createElement('img');
+    image.src = crop.image;
+    const text = document.createElement('div');
+    text.className = 'crop-text';
+    text.textContent = crop.text;
+    const confidence = document.createElement('div');
+    confidence.className = 'crop-confidence';
+    confidence.textContent = `${Math.round(crop.confidence * 100)}%`;
+    text.appendChild(confidence);
+    row.append(image, text);
+    return row;
+  }));
+  cropInspector.classList.remove('hidden');
+  // Images are data URLs, decoded before the inspector's size is known
+  await Promise.all(Array.from(cropInspector.querySelectorAll('img')).map((image) => image.decode().catch(() => {})));
+  if (request === cropsRequest) {
+    placeBelowSpans(cropInspector, spans);
+  }
+}
+
+// Arrow keys move the caret along the text and between boxes; in vertical boxes up and down
+// follow the characters and left moves on to the next column
+document.addEventListener('keydown', (event: KeyboardEvent) => {
+  if (editingSpan || selectingRegion || event.isComposing || event.metaKey || event.ctrlKey || event.altKey) {
+    return;
+  }
+  const vertical = caretSpan?.classList.contains('vertical') ?? false;
+  const keys: Record<string, () => void> = {
+    ArrowRight: () => (vertical ? moveToBox(-1) : moveCaret(1)),
+    ArrowLeft: () => (vertical ? moveToBox(1) : moveCaret(-1)),
+    ArrowDown: () => (vertical ? moveCaret(1) : moveToBox(1)),
+    ArrowUp: () => (vertical ? moveCaret(-1) : moveToBox(-1)),
+    Tab: () => moveToBox(event.shiftKey ? -1 : 1),
+    Home: () => caretSpan && setCaret(caretSpan, 0),
+    End: () => caretSpan && setCaret(caretSpan, Infinity),
+    Enter: () => (caretSpan ? setCaret(caretSpan, caretOffset) : moveToBox(1)),
+    Escape: clearCaret,
+    c: () => copyAtCaret('line'),
+    C: () => copyAtCaret('block'),
+    t: () => translateAtCaret('line'),
+    T: () => translateAtCaret('block'),
+    m: () => caretSpan && mineSpans(spansAround(caretSpan, 'line')),
+    M: () => caretSpan && mineSpans(spansAround(caretSpan, 'block')),
+    i: () => showCropsAtCaret('box'),
+    I: () => showCropsAtCaret('block')
+  };
+  const action = keys[event.key];
+  if (action) {
+    event.preventDefault();
+    action();
+  }
+});
+
+// Links boxes to their lines in the reading panel
+container.addEventListener('mouseover', (event: MouseEvent) => {
+  const span = (event.target as HTMLElement).closest<HTMLSpanElement>('.ocr-text');
+  if (span) {
+    ocrOverlay.hoverBox(Number(span.dataset.index));
+  }
+});
+
+container.addEventListener('mouseout', (event: MouseEvent) => {
+  const from = (event.target as HTMLElement).closest('.ocr-text');
+  const to = (event.relatedTarget as HTMLElement | null)?.closest('.ocr-text');
+  if (from && !to) {
+    ocrOverlay.hoverBox(null);
+  }
+});
+
+function highlightBoxes(indices: number[]): void {
+  const linked = new Set(indices.map(String));
+  container.querySelectorAll<HTMLSpanElement>('.ocr-text').forEach((span) => {
+    span.classList.toggle('linked', linked.has(span.dataset.index ?? ''));
+  });
+}
+
 // Listen for OCR results from main process
 ocrOverlay.onOCRResults((data: OCRData) => {
   console.log('Received OCR results:', data.observations.length, 'observations');
   showLoading(false);
+  if (editingSpan) {
+    deferredData = data;
+    return;
+  }
   renderOCRResults(data);
 });
 
+// Listen for watch mode re-scans
+ocrOverlay.onOCRUpdate(({ data, diff }) => {
+  if (editingSpan) {
+    // The diff is against boxes that are not on screen yet, so the whole scan is drawn later
+    deferredData = data;
+    return;
+  }
+  updateOCRResults(data, diff);
+});
+
 // Listen for loading state changes
 ocrOverlay.onLoadingState((isLoading: boolean) => {
   console.log('Loading state:', isLoading);
@@ -157,4 +898,42 @@ ocrOverlay.onError((message: string) => {
   showError(message);
 });
 
+// Listen for OCR engine supervisor updates
+ocrOverlay.onEngineStatus((status: EngineStatus) => {
+  console.log('Engine status:', status.state, status.message);
+  showEngineStatus(status);
+});
+
+ocrOverlay.onHighlightBoxes((indices: number[]) => {
+  highlightBoxes(indices);
+});
+
+ocrOverlay.onKeyboardNavigation(() => {
+  if (!caretSpan) {
+    moveToBox(1);
+  }
+});
+
+// Listen for region selection requests and the active scan region
+ocrOverlay.onRegionSelect(() => {
+  setSelectingRegion(true);
+});
+
+ocrOverlay.onScanRegion((region: ScanRegion | null) => {
+  showScanRegion(region);
+});
+
+ocrOverlay.onViewport((viewport: ViewRect) => {
+  setOverlayViewport(viewport);
+});
+
+ocrOverlay.onStale((reason: string) => {
+  dropStaleResults(reason);
+});
+
+// Listen for settings changes
+ocrOverlay.onOverlaySettings((settings: OverlaySettings) => {
+  applyOverlaySettings(settings);
+});
+
 console.log('Overlay ready');
@@ -0,0 +1,208 @@
+interface PanelScan {
+  entryId: string;
+  title: string;
+  data: OCRData;
+  hidden: number[];
+}
+
+interface PanelSettings {
+  fontSize: number;
+  keepScans: number;
+}
+
+interface OcrPanelAPI {
+  onScan: (callback: (scan: PanelScan) => void) => void;
+  onSettings: (callback: (settings: PanelSettings) => void) => void;
+  onHighlight: (callback: (highlight: { entryId: string; index: number | null }) => void) => void;
+  hoverLine: (entryId: string, indices: number[]) => void;
+  onTranslationEnabled: (callback: (enabled: boolean) => void) => void;
+  translate: (text: string) => Promise<TranslationResult>;
+  setFontSize: (fontSize: number) => Promise<unknown>;
+}
+
+declare const ocrPanel: OcrPanelAPI;
+
+const panelScans = document.getElementById('panel-scans')!;
+const fontSmaller = document.getElementById('font-smaller')!;
+const fontLarger = document.getElementById('font-larger')!;
+
+const MIN_PANEL_FONT_SIZE = 10;
+const MAX_PANEL_FONT_SIZE = 72;
+
+let panelSettings: PanelSettings = { fontSize: 22, keepScans: 5 };
+
+// Lines of the scan in reading order, as box indices, without the boxes the noise filter hides
+function panelLines(scan: PanelScan): number[][][] {
+  const hidden = new Set(scan.hidden);
+  const blocks = scan.data.layout?.blocks.map((block) => block.lines.map((line) => line.observations)) ??
+    [scan.data.observations.map((_, i) => [i])];
+  return blocks
+    .map((lines) => lines
+      .map((line) => line.filter((i) => !hidden.has(i)))
+      .filter((line) => line.length > 0))
+    .filter((lines) => lines.length > 0);
+}
+
+function renderPanelScan(scan: PanelScan): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'panel-scan';
+  section.dataset.entryId = scan.entryId;
+
+  const title = document.createElement('div');
+  title.className = 'panel-scan-title';
+  title.textContent = scan.title;
+  section.appendChild(title);
+
+  for (const lines of panelLines(scan)) {
+    const blockElement = document.createElement('div');
+    blockElement.className = 'panel-block';
+    for (const line of lines) {
+      const lineElement = document.createElement('div');
+      lineElement.className = 'panel-line';
+      lineElement.dataset.observations = line.join(',');
+      lineElement.textContent = joinFragments(line.map((i) => scan.data.observations[i].text));
+      blockElement.appendChild(lineElement);
+    }
+    const translateButton = document.createElement('button');
+    translateButton.className = 'panel-translate';
+    translateButton.textContent = 'Translate';
+    blockElement.appendChild(translateButton);
+    section.appendChild(blockElement);
+  }
+  return section;
+}
+
+function panelSections(): HTMLElement[] {
+  return Array.from(panelScans.querySelectorAll<HTMLElement>('.panel-scan'));
+}
+
+// A re-scan of the scan at the bottom replaces it; a new scan goes below and the oldest
+// ones beyond keepScans are dropped
+function showPanelScan(scan: PanelScan): void {
+  const nearBottom = panelScans.scrollHeight - panelScans.scrollTop - panelScans.clientHeight < 40;
+  const section = renderPanelScan(scan);
+  const sections = panelSections();
+  const last = sections[sections.length - 1];
+  if (last && last.dataset.entryId === scan.entryId) {
+    last.replaceWith(section);
+  } else {
+    panelScans.appendChild(section);
+  }
+  trimPanelScans();
+
+  // Follow new text unless the user scrolled up to read earlier scans
+  if (nearBottom) {
+    panelScans.scrollTop = panelScans.scrollHeight;
+  }
+}
+
+function trimPanelScans(): void {
+  const sections = panelSections();
+  sections.slice(0, Math.max(0, sections.length - 1 - panelSettings.keepScans)).forEach((section) => section.remove());
+}
+
+function applyPanelSettings(settings: PanelSettings): void {
+  panelSettings = settings;
+  panelScans.style.fontSize = `${settings.fontSize}px`;
+  trimPanelScans();
+}
+
+function changeFontSize(delta: number): void {
+  const fontSize = Math.min(MAX_PANEL_FONT_SIZE, Math.max(MIN_PANEL_FONT_SIZE, panelSettings.fontSize + delta));
+  if (fontSize !== panelSettings.fontSize) {
+    // Saved like any other setting; the change comes back through onSettings
+    ocrPanel.setFontSize(fontSize);
+  }
+}
+
+function lineIndices(line: HTMLElement): number[] {
+  return (line.dataset.observations ?? '').split(',').filter(Boolean).map(Number);
+}
+
+// Marks the line holding the overlay box under the pointer in the given scan
+function highlightPanelLine(entryId: string, index: number | null): void {
+  panelScans.querySelectorAll('.panel-line.linked').forEach((line) => line.classList.remove('linked'));
+  if (index === null) {
+    return;
+  }
+  const section = panelSections().find((item) => item.dataset.entryId === entryId);
+  const line = Array.from(section?.querySelectorAll<HTMLElement>('.panel-line') ?? [])
+    .find((item) => lineIndices(item).includes(index));
+  if (line) {
+    line.classList.add('linked');
+    line.scrollIntoView({ block: 'nearest' });
+  }
+}
+
+// Shows the block's translation under it; asking again after a failure retries
+async function translatePanelBlock(block: HTMLElement): Promise<void> {
+  const text = Array.from(block.querySelectorAll('.panel-line')).map((line) => line.textContent).join('\n');
+  let output = block.querySelector<HTMLElement>('.panel-translation');
+  if (!output) {
+    output = document.createElement('div');
+    output.className = 'panel-translation';
+    block.appendChild(output);
+  }
+  output.classList.remove('failed');
+  output.textContent = 'Translating…';
+  const result = await ocrPanel.translate(text);
+  output.classList.toggle('failed', result.error !== undefined);
+  output.textContent = result.error ?? result.text ?? '';
+}
+
+panelScans.addEventListener('click', (event: MouseEvent) => {
+  const button = (event.target as HTMLElement).closest('.panel-translate');
+  const block = button?.closest<HTMLElement>('.panel-block');
+  if (block) {
+    translatePanelBlock(block);
+  }
+});
+
+panelScans.addEventListener('mouseover', (event: MouseEvent) => {
+  const line = (event.target as HTMLElement).closest<HTMLElement>('.panel-line');
+  const section = line?.closest<HTMLElement>('.panel-scan');
+  if (line && section?.dataset.entryId) {
+    ocrPanel.hoverLine(section.dataset.entryId, lineIndices(line));
+  }
+});
+
+panelScans.addEventListener('mouseout', (event: MouseEvent) => {
+  const from = (event.target as HTMLElement).closest('.panel-line');
+  const to = (event.relatedTarget as HTMLElement | null)?.closest('.panel-line');
+  const section = from?.closest<HTMLElement>('.panel-scan');
+  if (from && !to && section?.dataset.entryId) {
+    ocrPanel.hoverLine(section.dataset.entryId, []);
+  }
+});
+
+fontSmaller.addEventListener('click', () => changeFontSize(-2));
+fontLarger.addEventListener('click', () => changeFontSize(2));
+
+document.addEventListener('keydown', (event: KeyboardEvent) => {
+  if (!(event.metaKey || event.ctrlKey)) {
+    return;
+  }
+  if (event.key === '+' || event.key === '=') {
+    event.preventDefault();
+    changeFontSize(2);
+  } else if (event.key === '-') {
+    event.preventDefault();
+    changeFontSize(-2);
+  }
+});
+
+ocrPanel.onScan((scan: PanelScan) => {
+  showPanelScan(scan);
+});
+
+ocrPanel.onSettings((settings: PanelSettings) => {
+  applyPanelSettings(settings);
+});
+
+ocrPanel.onHighlight(({ entryId, index }) => {
+  highlightPanelLine(entryId, index);
+});
+
+ocrPanel.onTranslationEnabled((enabled: boolean) => {
+  document.body.classList.toggle('translation-enabled', enabled);
+});
@@ -0,0 +1,41 @@
+interface ReaderContent {
+  title: string;
+  data: OCRData;
+}
+
+interface OcrReaderAPI {
+  onContent: (callback: (content: ReaderContent) => void) => void;
+}
+
+declare const ocrReader: OcrReaderAPI;
+
+const readerTitle = document.getElementById('reader-title')!;
+const transcript = document.getElementById('transcript')!;
+
+// Layout lines in reading order, grouped into blocks; Yomitan scans the plain text
+function renderTranscript(content: ReaderContent): void {
+  const { data } = content;
+  readerTitle.textContent = content.title;
+  document.title = content.title;
+  transcript.innerHTML = '';
+
+  const blocks = data.layout?.blocks.map((block) =>
+    block.lines.map((line) => joinFragments(line.observations.map((i) => data.observations[i].text)))
+  ) ?? [data.observations.map((obs) => obs.text)];
+
+  for (const lines of blocks) {
+    const blockElement = document.createElement('div');
+    blockElement.className = 'transcript-block';
+    for (const text of lines) {
+      const lineElement = document.createElement('div');
+      lineElement.className = 'transcript-line';
+      lineElement.textContent = text;
+      blockElement.appendChild(lineElement);
+    }
+    transcript.appendChild(blockElement);
+  }
+}
+
+ocrReader.onContent((content: ReaderContent) => {
+  renderTranscript(content);
+});
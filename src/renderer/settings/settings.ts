@@ -0,0 +1,345 @@
+interface SettingsFieldError {
+  path: string;
+  message: string;
+}
+
+interface SettingsUpdateResult {
+  settings: Record<string, unknown>;
+  errors: SettingsFieldError[];
+}
+
+interface SettingsProfile {
+  id: string;
+  name: string;
+  appName: string;
+  windowTitle: string;
+  translate: boolean;
+}
+
+interface SettingsProfilesState {
+  profiles: SettingsProfile[];
+  activeId: string | null;
+  target: { appName: string | null; windowTitle: string | null } | null;
+}
+
+interface PreprocessPreview {
+  image?: string;
+  boxes?: number;
+  error?: string;
+}
+
+interface OcrSettingsAPI {
+  get: () => Promise<Record<string, unknown>>;
+  update: (patch: Record<string, unknown>) => Promise<SettingsUpdateResult>;
+  reset: () => Promise<SettingsUpdateResult>;
+  onChanged: (callback: (settings: Record<string, unknown>) => void) => void;
+  previewPreprocessing: () => Promise<PreprocessPreview>;
+  getProfiles: () => Promise<SettingsProfilesState>;
+  createProfile: (windowTitle: string) => Promise<SettingsProfile | null>;
+  updateProfile: (id: string, changes: { name?: string; windowTitle?: string; translate?: boolean }) => Promise<SettingsProfile | null>;
+  deleteProfile: (id: string) => Promise<void>;
+  importProfiles: () => Promise<{ imported: number; errors: SettingsFieldError[] }>;
+  exportProfiles: () => Promise<boolean>;
+  onProfilesChanged: (callback: (state: SettingsProfilesState) => void) => void;
+}
+
+declare const ocrSettings: OcrSettingsAPI;
+
+// How a field's text maps to a setting value
+type SettingsFieldKind = 'text' | 'list' | 'number' | 'seconds' | 'shortcut' | 'boolean';
+
+const settingsFields = Array.from(
+  document.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-path]')
+);
+const isMacPlatform = navigator.platform.startsWith('Mac');
+
+function settingAt(settings: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], settings);
+}
+
+// A patch that only touches one setting, e.g. "timeouts.scanMs" -> { timeouts: { scanMs: value } }
+function patchFor(path: string, value: unknown): Record<string, unknown> {
+  return path.split('.').reduceRight<unknown>((inner, key) => ({ [key]: inner }), value) as Record<string, unknown>;
+}
+
+function formatField(kind: SettingsFieldKind, value: unknown): string {
+  switch (kind) {
+    case 'list':
+      return Array.isArray(value) ? value.join(', ') : '';
+    case 'seconds':
+      return typeof value === 'number' ? String(value / 1000) : '';
+    default:
+      return value === undefined ? '' : String(value);
+  }
+}
+
+function parseField(kind: SettingsFieldKind, text: string): unknown {
+  switch (kind) {
+    case 'list':
+      return text.split(',').map((item) => item.trim()).filter(Boolean);
+    case 'number':
+      return text.trim() === '' ? NaN : Number(text);
+    case 'seconds':
+      return text.trim() === '' ? NaN : Math.round(Number(text) * 1000);
+    default:
+      return text.trim();
+  }
+}
+
+function showSettings(settings: Record<string, unknown>): void {
+  for (const field of settingsFields) {
+    // Leave the field being edited alone so typing is not interrupted
+    if (field === document.activeElement && field.dataset.kind !== 'shortcut') {
+      continue;
+    }
+    setFieldValue(field, settingAt(settings, field.dataset.path!));
+  }
+}
+
+function setFieldValue(field: HTMLInputElement | HTMLSelectElement, value: unknown): void {
+  if (field.dataset.kind === 'boolean') {
+    (field as HTMLInputElement).checked = value === true;
+  } else {
+    field.value = formatField(field.dataset.kind as SettingsFieldKind, value);
+  }
+  showSliderValue(field);
+}
+
+// Sliders show their value next to them
+function showSliderValue(field: HTMLInputElement | HTMLSelectElement): void {
+  const output = document.querySelector<HTMLOutputElement>(`output[data-value-for="${field.dataset.path}"]`);
+  if (output) {
+    output.value = field.value;
+  }
+}
+
+function fieldValue(field: HTMLInputElement | HTMLSelectElement): unknown {
+  if (field.dataset.kind === 'boolean') {
+    return (field as HTMLInputElement).checked;
+  }
+  return parseField(field.dataset.kind as SettingsFieldKind, field.value);
+}
+
+function showSettingsErrors(errors: SettingsFieldError[]): void {
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>('[data-error-for]'))) {
+    element.textContent = errors
+      .filter((error) => error.path === element.dataset.errorFor)
+      .map((error) => error.message)
+      .join('; ');
+  }
+  for (const field of settingsFields) {
+    field.classList.toggle('invalid', errors.some((error) => error.path === field.dataset.path));
+  }
+}
+
+async function saveField(field: HTMLInputElement | HTMLSelectElement): Promise<void> {
+  const { settings, errors } = await ocrSettings.update(patchFor(field.dataset.path!, fieldValue(field)));
+  showSettingsErrors(errors);
+  // Rejected values snap back to what is stored
+  if (errors.some((error) => error.path === field.dataset.path)) {
+    setFieldValue(field, settingAt(settings, field.dataset.path!));
+  }
+}
+
+// Electron accelerator for a key press, or null while only modifiers are held
+function acceleratorFor(event: KeyboardEvent): string | null {
+  let key: string | null = null;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(event.code)) {
+    key = event.code.slice(5);
+  } else if (/^F[0-9]{1,2}$/.test(event.key)) {
+    key = event.key;
+  } else {
+    const named: Record<string, string> = {
+      ' ': 'Space',
+      ArrowUp: 'Up',
+      ArrowDown: 'Down',
+      ArrowLeft: 'Left',
+      ArrowRight: 'Right',
+      Escape: 'Escape',
+      Enter: 'Return',
+      Tab: 'Tab',
+      Backspace: 'Backspace',
+      Delete: 'Delete',
+      Home: 'Home',
+      End: 'End',
+      PageUp: 'PageUp',
+      PageDown: 'PageDown'
+    };
+    key = named[event.key] ?? null;
+  }
+  if (!key) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  if (event.metaKey) {
+    parts.push(isMacPlatform ? 'Command' : 'Super');
+  }
+  if (event.ctrlKey) {
+    parts.push('Control');
+  }
+  if (event.altKey) {
+    parts.push(isMacPlatform ? 'Option' : 'Alt');
+  }
+  if (event.shiftKey) {
+    parts.push('Shift');
+  }
+  parts.push(key);
+  return parts.join('+');
+}
+
+for (const field of settingsFields) {
+  if (field.dataset.kind === 'shortcut') {
+    field.addEventListener('keydown', (event) => {
+      const keyEvent = event as KeyboardEvent;
+      keyEvent.preventDefault();
+      const accelerator = acceleratorFor(keyEvent);
+      if (accelerator) {
+        field.value = accelerator;
+        saveField(field);
+      }
+    });
+  } else if (field.type === 'range') {
+    // Saved while dragging so the overlay follows the slider
+    field.addEventListener('input', () => {
+      showSliderValue(field);
+      saveField(field);
+    });
+  } else {
+    field.addEventListener('change', () => {
+      saveField(field);
+    });
+  }
+}
+
+document.getElementById('reset-settings')!.addEventListener('click', async () => {
+  const { settings, errors } = await ocrSettings.reset();
+  showSettings(settings);
+  showSettingsErrors(errors);
+});
+
+const preprocessButton = document.getElementById('preprocess-preview') as HTMLButtonElement;
+const preprocessStatus = document.getElementById('preprocess-status')!;
+const preprocessImage = document.getElementById('preprocess-image') as HTMLImageElement;
+
+preprocessButton.addEventListener('click', async () => {
+  preprocessButton.disabled = true;
+  preprocessStatus.textContent = 'Scanning…';
+  const preview = await ocrSettings.previewPreprocessing();
+  preprocessButton.disabled = false;
+  if (preview.error) {
+    preprocessStatus.textContent = preview.error;
+    return;
+  }
+  preprocessStatus.textContent = `${preview.boxes} ${preview.boxes === 1 ? 'box' : 'boxes'} recognized in this image.`;
+  preprocessImage.src = preview.image!;
+  preprocessImage.hidden = false;
+});
+
+const profileStatus = document.getElementById('profile-status')!;
+const profileFields = document.getElementById('profile-fields')!;
+const profileNameInput = document.getElementById('profile-name') as HTMLInputElement;
+const profileTitleInput = document.getElementById('profile-title') as HTMLInputElement;
+const profileTranslateInput = document.getElementById('profile-translate') as HTMLInputElement;
+const profileList = document.getElementById('profile-list')!;
+const profileErrors = document.getElementById('profile-errors')!;
+const createProfileButton = document.getElementById('profile-create') as HTMLButtonElement;
+const deleteProfileButton = document.getElementById('profile-delete') as HTMLButtonElement;
+let profilesState: SettingsProfilesState = { profiles: [], activeId: null, target: null };
+
+function activeSettingsProfile(): SettingsProfile | null {
+  return profilesState.profiles.find((profile) => profile.id === profilesState.activeId) ?? null;
+}
+
+function describeProfileMatch(profile: SettingsProfile): string {
+  return profile.windowTitle ? `${profile.appName}, title contains "${profile.windowTitle}"` : `${profile.appName}, any window`;
+}
+
+function showProfiles(state: SettingsProfilesState): void {
+  profilesState = state;
+  const active = activeSettingsProfile();
+  const targetName = state.target?.appName;
+  if (active) {
+    profileStatus.textContent = `Using this profile for ${targetName}.`;
+  } else if (targetName) {
+    profileStatus.textContent = `No profile for ${targetName}; the settings below apply to every window.`;
+  } else {
+    profileStatus.textContent = 'Pick a window to create a profile for it.';
+  }
+
+  profileFields.hidden = !active;
+  if (active) {
+    if (document.activeElement !== profileNameInput) {
+      profileNameInput.value = active.name;
+    }
+    if (document.activeElement !== profileTitleInput) {
+      profileTitleInput.value = active.windowTitle;
+    }
+    profileTranslateInput.checked = active.translate;
+  }
+  createProfileButton.disabled = !targetName;
+  deleteProfileButton.disabled = !active;
+
+  profileList.replaceChildren(...state.profiles.map((profile) => {
+    const item = document.createElement('li');
+    item.classList.toggle('active', profile.id === state.activeId);
+    item.textContent = profile.name;
+    const match = document.createElement('span');
+    match.className = 'profile-match';
+    match.textContent = describeProfileMatch(profile);
+    item.append(match);
+    return item;
+  }));
+}
+
+function showProfileErrors(errors: SettingsFieldError[]): void {
+  profileErrors.textContent = errors.map((error) => `${error.path} ${error.message}`).join('; ');
+}
+
+for (const [input, key] of [[profileNameInput, 'name'], [profileTitleInput, 'windowTitle']] as const) {
+  input.addEventListener('change', () => {
+    const active = activeSettingsProfile();
+    if (active) {
+      ocrSettings.updateProfile(active.id, { [key]: input.value });
+    }
+  });
+}
+
+profileTranslateInput.addEventListener('change', () => {
+  const active = activeSettingsProfile();
+  if (active) {
+    ocrSettings.updateProfile(active.id, { translate: profileTranslateInput.checked });
+  }
+});
+
+// New profiles match the picked window's current title; clear the title field to match the whole app
+createProfileButton.addEventListener('click', () => {
+  ocrSettings.createProfile(profilesState.target?.windowTitle ?? '');
+});
+
+deleteProfileButton.addEventListener('click', () => {
+  const active = activeSettingsProfile();
+  if (active && confirm(`Delete the profile "${active.name}"?`)) {
+    ocrSettings.deleteProfile(active.id);
+  }
+});
+
+document.getElementById('profile-import')!.addEventListener('click', async () => {
+  const { errors } = await ocrSettings.importProfiles();
+  showProfileErrors(errors);
+});
+
+document.getElementById('profile-export')!.addEventListener('click', () => {
+  ocrSettings.exportProfiles();
+});
+
+// Changes made elsewhere (or normalised by main) show up while the window is open
+ocrSettings.onChanged((settings) => {
+  showSettings(settings);
+});
+ocrSettings.onProfilesChanged(showProfiles);
+
+ocrSettings.get().then(showSettings);
+ocrSettings.getProfiles().then(showProfiles);
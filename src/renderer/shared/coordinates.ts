@@ -0,0 +1,37 @@
+// Renderer side of src/main/coordinates.ts: the same mapping between normalized Vision rects
+// (bottom-left origin) and CSS pixels inside a frame, for windows that cannot load main modules.
+// Loaded with its own <script> tag like ocr-data.js.
+
+interface ViewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function normalizedToView(rect: ViewRect, frame: ViewRect): ViewRect {
+  return {
+    x: frame.x + rect.x * frame.width,
+    y: frame.y + (1 - rect.y - rect.height) * frame.height,
+    width: rect.width * frame.width,
+    height: rect.height * frame.height
+  };
+}
+
+function viewToNormalized(rect: ViewRect, frame: ViewRect): ViewRect {
+  return {
+    x: (rect.x - frame.x) / frame.width,
+    y: 1 - (rect.y - frame.y + rect.height) / frame.height,
+    width: rect.width / frame.width,
+    height: rect.height / frame.height
+  };
+}
+
+// Cut to the unit square; null when nothing is left
+function clampToUnit(rect: ViewRect): ViewRect | null {
+  const x = Math.max(rect.x, 0);
+  const y = Math.max(rect.y, 0);
+  const right = Math.min(rect.x + rect.width, 1);
+  const top = Math.min(rect.y + rect.height, 1);
+  return right > x && top > y ? { x, y, width: right - x, height: top - y } : null;
+}
@@ -0,0 +1,82 @@
+// Shared by all renderer windows. Renderer scripts are plain scripts sharing one global scope,
+// so this file is loaded with its own <script> tag before the window's script.
+
+interface TextObservation {
+  text: string;
+  confidence: number;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  topLeft: { x: number; y: number };
+  topRight: { x: number; y: number };
+  bottomRight: { x: number; y: number };
+  bottomLeft: { x: number; y: number };
+  // What the engine read, when `text` was corrected
+  originalText?: string;
+}
+
+type TextOrientation = 'horizontal' | 'vertical';
+
+interface LayoutLine {
+  orientation: TextOrientation;
+  observations: number[];
+}
+
+interface LayoutBlock {
+  orientation: TextOrientation;
+  lines: LayoutLine[];
+}
+
+interface DocumentLayout {
+  blocks: LayoutBlock[];
+  order: number[];
+  orientations: TextOrientation[];
+}
+
+interface OCRData {
+  imageWidth: number;
+  imageHeight: number;
+  observations: TextObservation[];
+  layout?: DocumentLayout;
+}
+
+// Reply to a translation request: the translation, or why there is none
+interface TranslationResult {
+  text?: string;
+  error?: string;
+}
+
+// Result of matching a re-scan against the previous scan of the same window
+interface OCRDiff {
+  matches: { previous: number; next: number; changed: boolean }[];
+  added: number[];
+  removed: number[];
+}
+
+function isCJK(char: string): boolean {
+  return /[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]/.test(char);
+}
+
+// Same joining rule as the main process: no spaces between CJK fragments
+function joinFragments(parts: string[]): string {
+  let result = '';
+  for (const part of parts) {
+    if (result && part && !(isCJK(result[result.length - 1]) && isCJK(part[0]))) {
+      result += ' ';
+    }
+    result += part;
+  }
+  return result;
+}
+
+// Text of the given observations, laid out as lines and blocks in reading order
+function textForObservations(data: OCRData, indices: Set<number>): string {
+  if (!data.layout) {
+    return data.observations.filter((_, i) => indices.has(i)).map((obs) => obs.text).join('\n');
+  }
+  return data.layout.blocks
+    .map((block) => block.lines
+      .map((line) => joinFragments(line.observations.filter((i) => indices.has(i)).map((i) => data.observations[i].text)))
+      .filter((text) => text.length > 0)
+      .join('\n'))
+    .filter((text) => text.length > 0)
+    .join('\n\n');
+}
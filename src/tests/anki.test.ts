@@ -0,0 +1,76 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnkiConnect, AnkiSettings, MinedSentence, buildNote } from '../main/anki';
+import { DEFAULT_SETTINGS } from '../main/settings';
+
+let servers: http.Server[] = [];
+
+afterEach(() => {
+  servers.forEach((server) => server.close());
+  servers = [];
+});
+
+const MINED: MinedSentence = {
+  sentence: '<猫>が\n好き',
+  picture: Buffer.from('png'),
+  appName: 'Game',
+  windowTitle: 'Chapter 1',
+  timestamp: 1700000000000
+};
+
+// An AnkiConnect stand-in that records requests and answers with `reply`
+async function fakeAnkiConnect(reply: unknown): Promise<{ url: string; requests: unknown[] }> {
+  const requests: unknown[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      requests.push(JSON.parse(body));
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+describe('buildNote', () => {
+  it('fills the mapped fields and joins parts sharing a field', () => {
+    const note = buildNote(DEFAULT_SETTINGS.anki, MINED);
+    assert.deepEqual(note.fields, { Front: '&lt;猫&gt;が<br>好き', Back: 'Game — Chapter 1' });
+    assert.equal(note.deckName, 'Default');
+    assert.deepEqual(note.tags, ['ocr-mined']);
+    assert.deepEqual(note.picture, [{ filename: 'ocr-mined-1700000000000.png', data: 'cG5n', fields: ['Back'] }]);
+  });
+
+  it('leaves out parts without a field', () => {
+    const settings: AnkiSettings = { ...DEFAULT_SETTINGS.anki, fields: { sentence: 'Sentence', picture: 'Picture', source: '' } };
+    const note = buildNote(settings, { ...MINED, picture: null });
+    assert.deepEqual(note.fields, { Sentence: '&lt;猫&gt;が<br>好き' });
+    assert.equal(note.picture, undefined);
+
+    const withPicture = buildNote(settings, MINED);
+    assert.deepEqual(withPicture.fields, { Sentence: '&lt;猫&gt;が<br>好き', Picture: '' });
+  });
+});
+
+describe('AnkiConnect', () => {
+  it('adds notes with the API key', async () => {
+    const { url, requests } = await fakeAnkiConnect({ result: 1234, error: null });
+    const note = buildNote(DEFAULT_SETTINGS.anki, MINED);
+    assert.equal(await new AnkiConnect(url, 'secret').addNote(note), 1234);
+    assert.deepEqual(requests, [{ action: 'addNote', version: 6, params: { note }, key: 'secret' }]);
+  });
+
+  it('reports the error Anki returns', async () => {
+    const { url } = await fakeAnkiConnect({ result: null, error: 'cannot create note because it is a duplicate' });
+    await assert.rejects(new AnkiConnect(url, '').addNote(buildNote(DEFAULT_SETTINGS.anki, MINED)), /duplicate/);
+  });
+
+  it('explains when Anki is not running', async () => {
+    await assert.rejects(new AnkiConnect('http://127.0.0.1:1', '').invoke('version'), /is Anki running/);
+  });
+});
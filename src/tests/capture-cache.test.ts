@@ -0,0 +1,114 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CaptureCache, CaptureLimits, cropArea } from '../main/capture-cache';
+import { OCRData, observationFromPixelRect } from '../main/ocr-engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIMITS: CaptureLimits = { maxBytes: 1000, maxAgeMs: DAY_MS };
+
+let tmpDirs: string[] = [];
+
+function cacheDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-cache-test-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+// Stores a capture of the given size the way a scan does
+function addCapture(cache: CaptureCache, size: number): string {
+  const { id, path: file } = cache.reserve();
+  fs.writeFileSync(file, Buffer.alloc(size));
+  assert.equal(cache.add(id), true);
+  return id;
+}
+
+afterEach(() => {
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  tmpDirs = [];
+});
+
+describe('CaptureCache', () => {
+  it('keeps captures across restarts', () => {
+    const dir = cacheDir();
+    const id = addCapture(new CaptureCache(dir, LIMITS), 100);
+    const reloaded = new CaptureCache(dir, LIMITS);
+    assert.equal(reloaded.path(id), path.join(dir, `${id}.png`));
+    assert.equal(reloaded.totalBytes(), 100);
+  });
+
+  it('drops the oldest captures beyond the size limit', () => {
+    const cache = new CaptureCache(cacheDir(), LIMITS);
+    const oldest = addCapture(cache, 400);
+    const middle = addCapture(cache, 400);
+    const newest = addCapture(cache, 400);
+    assert.equal(cache.has(oldest), false);
+    assert.equal(fs.readdirSync(path.dirname(cache.path(newest)!)).length, 2);
+    assert.ok(cache.has(middle) && cache.has(newest));
+
+    cache.setLimits({ ...LIMITS, maxBytes: 500 });
+    assert.equal(cache.has(middle), false);
+    assert.equal(cache.totalBytes(), 400);
+  });
+
+  it('drops captures past the age limit', () => {
+    const cache = new CaptureCache(cacheDir(), LIMITS);
+    const id = addCapture(cache, 10);
+    cache.prune(Date.now() + DAY_MS / 2);
+    assert.equal(cache.has(id), true);
+    cache.prune(Date.now() + 2 * DAY_MS);
+    assert.equal(cache.path(id), null);
+  });
+
+  it('ignores reserved captures that were never written or were discarded', () => {
+    const cache = new CaptureCache(cacheDir(), LIMITS);
+    const unwritten = cache.reserve();
+    assert.equal(cache.add(unwritten.id), false);
+
+    const failed = cache.reserve();
+    fs.writeFileSync(failed.path, 'partial');
+    cache.discard(failed.id);
+    assert.equal(fs.existsSync(failed.path), false);
+    assert.equal(cache.totalBytes(), 0);
+  });
+});
+
+describe('cropArea', () => {
+  const data: OCRData = {
+    imageWidth: 200,
+    imageHeight: 100,
+    observations: [
+      observationFromPixelRect('a', 1, { left: 20, top: 10, width: 50, height: 20 }, 200, 100),
+      observationFromPixelRect('b', 1, { left: 100, top: 40, width: 95, height: 58 }, 200, 100)
+    ]
+  };
+
+  it('covers the boxes with a margin, inside the image', () => {
+    assert.deepEqual(cropArea(data, [0], 200, 100), { x: 12, y: 2, width: 66, height: 36 });
+    assert.deepEqual(cropArea(data, [0, 1], 200, 100), { x: 12, y: 2, width: 188, height: 98 });
+  });
+
+  it('follows the corners of slanted boxes', () => {
+    const slanted: OCRData = {
+      ...data,
+      observations: [{
+        ...data.observations[0],
+        topLeft: { x: 0.1, y: 0.9 },
+        topRight: { x: 0.5, y: 0.7 },
+        bottomRight: { x: 0.5, y: 0.5 },
+        bottomLeft: { x: 0.1, y: 0.7 }
+      }]
+    };
+    assert.deepEqual(cropArea(slanted, [0], 200, 100), { x: 12, y: 2, width: 96, height: 56 });
+  });
+
+  it('scales to the size of the capture file', () => {
+    assert.deepEqual(cropArea(data, [0], 400, 200), { x: 32, y: 12, width: 116, height: 56 });
+  });
+
+  it('needs at least one box of the scan', () => {
+    assert.equal(cropArea(data, [5], 200, 100), null);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CommandEngine,
+  RecognizerConfig,
+  RecognizerWorker,
+  TESSERACT_RECOGNIZER,
+  parseTesseractTSV
+} from '../main/command-engine';
+import { observationFromPixelRect } from '../main/ocr-engine';
+
+// Rows of `tesseract page.png stdout -l jpn+eng tsv`: two lines of words, the second with a
+// blank word and one without a confidence, and a third whose text has a tab in it
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+const TSV_PAGE = '1\t1\t0\t0\t0\t0\t0\t0\t400\t200\t-1\t';
+const TSV_WORDS = [
+  '2\t1\t1\t0\t0\t0\t20\t10\t300\t110\t-1\t',
+  '3\t1\t1\t1\t0\t0\t20\t10\t300\t110\t-1\t',
+  '4\t1\t1\t1\t1\t0\t20\t10\t200\t30\t-1\t',
+  '5\t1\t1\t1\t1\t1\t20\t10\t90\t30\t96.5\tHello',
+  '5\t1\t1\t1\t1\t2\t120\t12\t100\t28\t91.5\tworld',
+  '4\t1\t1\t1\t2\t0\t20\t50\t120\t30\t-1\t',
+  '5\t1\t1\t1\t2\t1\t20\t50\t60\t30\t88\t今日は',
+  '5\t1\t1\t1\t2\t2\t80\t50\t60\t30\t-1\t晴れ',
+  '5\t1\t1\t1\t2\t3\t300\t52\t40\t28\t95\t ',
+  '4\t1\t1\t1\t3\t0\t20\t90\t100\t30\t-1\t',
+  '5\t1\t1\t1\t3\t1\t20\t90\t100\t30\t-1\ta\tb'
+];
+
+// Stand-in for the manga-ocr worker: answers with its pid so tests can tell launches apart, and
+// fails or exits for paths that ask it to
+const FAKE_WORKER = `
+  const readline = require('readline');
+  console.log('Loading model...');
+  console.log(JSON.stringify({ ready: true }));
+  readline.createInterface({ input: process.stdin }).on('line', (line) => {
+    if (line === 'crash') process.exit(3);
+    const reply = line === 'fail' ? { error: 'bad image' } : { text: 'pid ' + process.pid };
+    console.log(JSON.stringify(reply));
+  });
+`;
+
+const FAKE_RECOGNIZER: RecognizerConfig = {
+  name: 'fake-worker',
+  command: process.execPath,
+  args: ['-e', FAKE_WORKER],
+  format: 'text',
+  worker: true
+};
+
+const TIMEOUT_MS = 5000;
+
+let cleanups: (() => void)[] = [];
+let tmpDirs: string[] = [];
+
+afterEach(() => {
+  cleanups.forEach((cleanup) => cleanup());
+  cleanups = [];
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  tmpDirs = [];
+});
+
+// Just enough of a PNG for its size to be read
+function png(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function worker(args: string[] = ['-e', FAKE_WORKER]): RecognizerWorker {
+  const created = new RecognizerWorker(process.execPath, args);
+  cleanups.push(() => created.kill(new Error('test done')));
+  return created;
+}
+
+describe('parseTesseractTSV', () => {
+  const expected = [
+    observationFromPixelRect('Hello world', 0.94, { left: 20, top: 10, width: 200, height: 30 }, 400, 200),
+    observationFromPixelRect('今日は晴れ', 0.88, { left: 20, top: 50, width: 120, height: 30 }, 400, 200),
+    observationFromPixelRect('a\tb', 0, { left: 20, top: 90, width: 100, height: 30 }, 400, 200)
+  ];
+
+  it('joins the words of each line and averages the confidences it has', () => {
+    const data = parseTesseractTSV([TSV_HEADER, TSV_PAGE, ...TSV_WORDS, ''].join('\n'));
+    assert.equal(data.imageWidth, 400);
+    assert.equal(data.imageHeight, 200);
+    assert.deepEqual(data.observations, expected);
+  });
+
+  it('takes the image size from the caller when the page row is missing', () => {
+    const tsv = [TSV_HEADER, ...TSV_WORDS].join('\n');
+    assert.deepEqual(parseTesseractTSV(tsv, { width: 400, height: 200 }), { imageWidth: 400, imageHeight: 200, observations: expected });
+    assert.throws(() => parseTesseractTSV(tsv), /no page size/);
+  });
+
+  it('returns no boxes for an empty page', () => {
+    assert.deepEqual(parseTesseractTSV([TSV_HEADER, TSV_PAGE].join('\n')).observations, []);
+  });
+});
+
+describe('CommandEngine', () => {
+  it('passes the image path and languages to the recognizer as they are', async () => {
+    // Prints its arguments as the words of two lines
+    const echo = `
+      const [image, languages] = [process.argv[1], process.argv[3]];
+      console.log(${JSON.stringify([TSV_HEADER, TSV_PAGE].join('\n'))});
+      console.log(['5', '1', '1', '1', '1', '1', '0', '0', '10', '10', '90', image].join('\\t'));
+      console.log(['5', '1', '1', '1', '2', '1', '0', '20', '10', '10', '90', languages].join('\\t'));
+    `;
+    const engine = new CommandEngine({ ...TESSERACT_RECOGNIZER, command: process.execPath, args: ['-e', echo, '{image}', '-l', '{languages}'] });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "command-engine-$&-{languages}-$'-"));
+    tmpDirs.push(dir);
+    const image = path.join(dir, 'page.png');
+    fs.writeFileSync(image, png(400, 200));
+
+    const data = await engine.scanImage(image, { languages: ['ja', 'en'] });
+    assert.deepEqual(data.observations.map((obs) => obs.text), [image, 'jpn+eng']);
+  });
+});
+
+describe('CommandEngine with a worker', () => {
+  it('recognizes every image with the process it started', async () => {
+    const engine = new CommandEngine(FAKE_RECOGNIZER);
+    cleanups.push(() => engine.stop());
+    await engine.start();
+    const first = await engine.scanImage(png(200, 100));
+    const second = await engine.scanImage(png(200, 100));
+    assert.equal(first.observations.length, 1);
+    assert.match(first.observations[0].text, /^pid \d+$/);
+    assert.equal(second.observations[0].text, first.observations[0].text);
+    assert.deepEqual(first.observations[0].boundingBox, { x: 0, y: 0, width: 1, height: 1 });
+    assert.equal(first.imageWidth, 200);
+  });
+
+  it('fails to start with the error of a worker that cannot load', async () => {
+    const engine = new CommandEngine({
+      ...FAKE_RECOGNIZER,
+      args: ['-e', 'console.error("Traceback ..."); console.error("ModuleNotFoundError: No module named \'manga_ocr\'"); process.exit(1)']
+    });
+    await assert.rejects(engine.start(), /exited with code 1: ModuleNotFoundError: No module named 'manga_ocr'/);
+    assert.equal(engine.isReady(), false);
+  });
+});
+
+describe('RecognizerWorker', () => {
+  it('reports what the recognizer could not read and keeps running', async () => {
+    const recognizer = worker();
+    await assert.rejects(recognizer.recognize('fail', TIMEOUT_MS), /failed: bad image/);
+    assert.match(await recognizer.recognize('image.png', TIMEOUT_MS), /^pid \d+$/);
+  });
+
+  it('starts again after the worker exited', async () => {
+    const recognizer = worker();
+    const before = await recognizer.recognize('image.png', TIMEOUT_MS);
+    await assert.rejects(recognizer.recognize('crash', TIMEOUT_MS), /exited with code 3/);
+    const after = await recognizer.recognize('image.png', TIMEOUT_MS);
+    assert.notEqual(after, before);
+  });
+
+  it('gives up on a worker that does not answer', async () => {
+    const recognizer = worker(['-e', 'console.log(JSON.stringify({ ready: true })); setInterval(() => {}, 1000)']);
+    await assert.rejects(recognizer.recognize('image.png', 200), /timed out/);
+    assert.equal(recognizer.isBusy(), false);
+  });
+});
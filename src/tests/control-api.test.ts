@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { ControlActions, ControlServer } from '../main/control-api';
+import { OCRData } from '../main/ocr-engine';
+import { cleanupAfterEach, freePort } from './helpers';
+
+const TOKEN = 'test-token';
+const SCAN: OCRData = { imageWidth: 10, imageHeight: 10, observations: [] };
+
+const ACTIONS: ControlActions = {
+  scan: async () => SCAN,
+  pick: async () => { throw new Error('not picking in tests'); },
+  latest: () => null,
+  target: () => null,
+  status: () => ({ engine: 'test' }),
+  showOverlay: () => {},
+  hideOverlay: () => {},
+  toggleOverlay: () => {}
+};
+
+const cleanup = cleanupAfterEach();
+
+async function startServer(): Promise<{ server: ControlServer; port: number }> {
+  const server = new ControlServer(ACTIONS);
+  cleanup(() => server.stop());
+  const port = await freePort();
+  await server.configure({ enabled: true, port, token: TOKEN });
+  return { server, port };
+}
+
+// Sends a request and resolves with the response once its headers arrived
+function request(port: number, path: string, headers: http.OutgoingHttpHeaders = {}): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path, headers }, resolve).on('error', reject);
+  });
+}
+
+async function body(response: http.IncomingMessage): Promise<string> {
+  let text = '';
+  for await (const chunk of response) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('ControlServer', () => {
+  it('answers requests carrying the token', async () => {
+    const { port } = await startServer();
+    const response = await request(port, '/status', { Authorization: `Bearer ${TOKEN}` });
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(JSON.parse(await body(response)), { engine: 'test' });
+
+    const byQuery = await request(port, `/status?token=${TOKEN}`);
+    assert.equal(byQuery.statusCode, 200);
+    byQuery.resume();
+  });
+
+  it('rejects requests without the right token', async () => {
+    const { port } = await startServer();
+    const missing = await request(port, '/status');
+    assert.equal(missing.statusCode, 401);
+    assert.deepEqual(JSON.parse(await body(missing)), { error: 'Missing or invalid token' });
+
+    const wrong = await request(port, '/status', { Authorization: 'Bearer wrong-token' });
+    assert.equal(wrong.statusCode, 401);
+    wrong.resume();
+  });
+
+  it('rejects requests for a foreign host', async () => {
+    const { port } = await startServer();
+    const response = await request(port, '/status', { Authorization: `Bearer ${TOKEN}`, Host: `attacker.example:${port}` });
+    assert.equal(response.statusCode, 403);
+    response.resume();
+  });
+
+  it('sends published results to event subscribers', async () => {
+    const { server, port } = await startServer();
+    const response = await request(port, `/events?token=${TOKEN}`);
+    assert.equal(response.headers['content-type'], 'text/event-stream');
+    response.setEncoding('utf8');
+
+    let received = '';
+    const event = new Promise<string>((resolve) => {
+      response.on('data', (chunk: string) => {
+        received += chunk;
+        if (received.includes('event: result')) {
+          resolve(received);
+        }
+      });
+    });
+    // Wait for the subscription to be registered before publishing
+    await new Promise((resolve) => response.once('data', resolve));
+    server.publish('result', { data: SCAN });
+    assert.match(await event, /event: result\ndata: \{"data":\{"imageWidth":10,"imageHeight":10,"observations":\[\]\}\}\n\n/);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  DisplayInfo,
+  clampNormalized,
+  frameToNormalized,
+  imageToNormalized,
+  normalizedToFrame,
+  normalizedToImage,
+  physicalToScreen,
+  placeOverlay
+} from '../main/coordinates';
+
+// A Retina laptop with a standard-density monitor to its right
+const LAPTOP: DisplayInfo = { bounds: { x: 0, y: 0, width: 1440, height: 900 }, scaleFactor: 2 };
+const MONITOR: DisplayInfo = { bounds: { x: 1440, y: 0, width: 1920, height: 1080 }, scaleFactor: 1 };
+
+describe('normalized rects', () => {
+  it('flip to a top-left origin in image pixels and back', () => {
+    const box = { x: 0.25, y: 0.75, width: 0.5, height: 0.125 };
+    const pixels = normalizedToImage(box, 1600, 1200);
+    assert.deepEqual(pixels, { x: 400, y: 150, width: 800, height: 150 });
+    assert.deepEqual(imageToNormalized(pixels, 1600, 1200), box);
+  });
+
+  it('map onto a frame with an offset, like a partly off-screen window in the overlay', () => {
+    const frame = { x: -200, y: 40, width: 800, height: 600 };
+    const box = { x: 0, y: 0.5, width: 0.5, height: 0.5 };
+    const rect = normalizedToFrame(box, frame);
+    assert.deepEqual(rect, { x: -200, y: 40, width: 400, height: 300 });
+    assert.deepEqual(frameToNormalized(rect, frame), box);
+  });
+
+  it('clamp to the unit square', () => {
+    assert.deepEqual(clampNormalized({ x: -0.25, y: 0.5, width: 0.5, height: 1 }), { x: 0, y: 0.5, width: 0.25, height: 0.5 });
+    assert.equal(clampNormalized({ x: 1.5, y: 0, width: 0.5, height: 0.5 }), null);
+  });
+});
+
+describe('physicalToScreen', () => {
+  it('divides by the scale factor of the display holding the rect', () => {
+    assert.deepEqual(
+      physicalToScreen({ x: 200, y: 100, width: 1600, height: 1200 }, [LAPTOP, MONITOR]),
+      { x: 100, y: 50, width: 800, height: 600 }
+    );
+  });
+
+  it('finds the display on a scaled desktop with several monitors', () => {
+    // X11 scales the whole desktop, so the second monitor's pixels start at twice its origin
+    const left: DisplayInfo = { bounds: { x: 0, y: 0, width: 1280, height: 800 }, scaleFactor: 2 };
+    const right: DisplayInfo = { bounds: { x: 1280, y: 0, width: 1280, height: 800 }, scaleFactor: 2 };
+    assert.deepEqual(
+      physicalToScreen({ x: 2560 + 100, y: 100, width: 800, height: 600 }, [left, right]),
+      { x: 1330, y: 50, width: 400, height: 300 }
+    );
+  });
+
+  it('keeps points on a standard-density display', () => {
+    const rect = { x: 1540, y: 100, width: 800, height: 600 };
+    assert.deepEqual(physicalToScreen(rect, [MONITOR]), rect);
+  });
+
+  it('uses the nearest display for a rect outside all of them', () => {
+    const rect = physicalToScreen({ x: -400, y: 0, width: 200, height: 200 }, [LAPTOP, MONITOR]);
+    assert.deepEqual(rect, { x: -200, y: 0, width: 100, height: 100 });
+  });
+
+  it('returns the rect unchanged without displays', () => {
+    const rect = { x: 10, y: 20, width: 30, height: 40 };
+    assert.deepEqual(physicalToScreen(rect, []), rect);
+  });
+});
+
+describe('placeOverlay', () => {
+  it('covers a window that is fully on one display', () => {
+    const window = { x: 100, y: 50, width: 800, height: 600 };
+    assert.deepEqual(placeOverlay(window, [LAPTOP, MONITOR]), {
+      bounds: window,
+      viewport: { x: 0, y: 0, width: 800, height: 600 }
+    });
+  });
+
+  it('cuts a partly off-screen window to the screen and shifts the viewport', () => {
+    const placement = placeOverlay({ x: -300, y: -20, width: 800, height: 600 }, [LAPTOP]);
+    assert.deepEqual(placement.bounds, { x: 0, y: 0, width: 500, height: 580 });
+    assert.deepEqual(placement.viewport, { x: -300, y: -20, width: 800, height: 600 });
+  });
+
+  it('spans the displays a window is on', () => {
+    const placement = placeOverlay({ x: 1200, y: 700, width: 600, height: 400 }, [LAPTOP, MONITOR]);
+    // The laptop ends at 900, the monitor at 1080
+    assert.deepEqual(placement.bounds, { x: 1200, y: 700, width: 600, height: 380 });
+    assert.deepEqual(placement.viewport, { x: 0, y: 0, width: 600, height: 400 });
+  });
+
+  it('rounds the overlay outward to whole points', () => {
+    const placement = placeOverlay({ x: 10.5, y: 20.25, width: 100, height: 50 }, [LAPTOP]);
+    assert.deepEqual(placement.bounds, { x: 10, y: 20, width: 101, height: 51 });
+    assert.deepEqual(placement.viewport, { x: 0.5, y: 0.25, width: 100, height: 50 });
+  });
+
+  it('leaves a window on no display where it is', () => {
+    const window = { x: 5000, y: 0, width: 400, height: 300 };
+    assert.deepEqual(placeOverlay(window, [LAPTOP]).bounds, window);
+  });
+});
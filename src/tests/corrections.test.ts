@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OCRData } from '../main/ocr-engine';
+import { applyCorrections, correctionRule } from '../main/corrections';
+
+function scan(...texts: string[]): OCRData {
+  return {
+    imageWidth: 100,
+    imageHeight: 100,
+    observations: texts.map((text, i) => ({
+      text,
+      confidence: 1,
+      boundingBox: { x: 0, y: i * 0.1, width: 1, height: 0.1 },
+      topLeft: { x: 0, y: i * 0.1 + 0.1 },
+      topRight: { x: 1, y: i * 0.1 + 0.1 },
+      bottomRight: { x: 1, y: i * 0.1 },
+      bottomLeft: { x: 0, y: i * 0.1 }
+    }))
+  };
+}
+
+describe('correctionRule', () => {
+  it('keeps one unchanged character around the edit', () => {
+    assert.deepEqual(correctionRule('彼は末だ来ない', '彼は未だ来ない'), { from: 'は末だ', to: 'は未だ' });
+  });
+
+  it('covers insertions and whole replacements', () => {
+    assert.deepEqual(correctionRule('ab', 'abc'), { from: 'b', to: 'bc' });
+    assert.deepEqual(correctionRule('x', 'y'), { from: 'x', to: 'y' });
+  });
+
+  it('returns null for unchanged text', () => {
+    assert.equal(correctionRule('同じ', '同じ'), null);
+  });
+});
+
+describe('applyCorrections', () => {
+  it('rewrites matching boxes and keeps what the engine read', () => {
+    const data = applyCorrections(scan('まだ末だ', '末来'), [{ from: 'だ末だ', to: 'だ未だ' }]);
+    assert.equal(data.observations[0].text, 'まだ未だ');
+    assert.equal(data.observations[0].originalText, 'まだ末だ');
+    // The same character elsewhere is left alone
+    assert.equal(data.observations[1].text, '末来');
+    assert.equal(data.observations[1].originalText, undefined);
+  });
+
+  it('prefers the longer of two overlapping rules', () => {
+    const data = applyCorrections(scan('ab'), [{ from: 'a', to: 'x' }, { from: 'ab', to: 'yz' }]);
+    assert.equal(data.observations[0].text, 'yz');
+  });
+
+  it('does not apply a rule to the text another rule produced', () => {
+    const data = applyCorrections(scan('人大が'), [{ from: '人大', to: '人犬' }, { from: '犬が', to: '大が' }]);
+    assert.equal(data.observations[0].text, '人犬が');
+  });
+
+  it('matches rules containing regular expression characters literally', () => {
+    const data = applyCorrections(scan('a.b (1)', 'axb'), [{ from: 'a.b', to: 'ab' }, { from: '(1)', to: '(l)' }]);
+    assert.equal(data.observations[0].text, 'ab (l)');
+    assert.equal(data.observations[1].text, 'axb');
+  });
+
+  it('returns the scan itself when nothing matches', () => {
+    const data = scan('text');
+    assert.equal(applyCorrections(data, [{ from: 'zzz', to: 'y' }]), data);
+  });
+});
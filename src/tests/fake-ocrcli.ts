@@ -0,0 +1,374 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import type { CLIResponse, SessionEntry } from '../main/ocr-bridge';
+import type { OCRData, WindowSelectedData } from '../main/ocr-engine';
+
+// Stand-in for the Swift ocrcli that speaks the same JSON-lines protocol, for tests on any platform:
+//
+//   node fake-ocrcli.js --scenario <file.json> [--state <file.json>]
+//   node fake-ocrcli.js --replay <session.jsonl> [--state <file.json>]
+//
+// A scenario scripts how each action behaves (FakeScenario below); a replay answers commands with
+// the replies of a session recorded by OCRBridge's `recordTo`. The state file carries the launch
+// count and the steps already used over to the next launch, so a crash can be followed by a
+// different reply once the bridge restarts the CLI.
+
+// What the fake does for one command (or for the ready handshake)
+export interface FakeStep {
+  delayMs?: number;
+  // Printed before the reply, e.g. to send garbage
+  raw?: string;
+  // Fields replacing the default reply, e.g. { success: false, error: '...' }
+  reply?: Partial<CLIResponse>;
+  // Exit with this code instead of replying
+  crash?: number;
+  // Never reply (until cancelled)
+  hang?: boolean;
+}
+
+// Steps are used in order, one per command of that action, and the last one repeats.
+// `ready` is used once per launch. Actions without steps succeed immediately.
+export interface FakeScenario {
+  ready?: FakeStep[];
+  pick?: FakeStep[];
+  scan?: FakeStep[];
+  scanImage?: FakeStep[];
+  windowState?: FakeStep[];
+  // Returned by successful picks and scans
+  window?: WindowSelectedData;
+  ocr?: OCRData;
+}
+
+interface FakeState {
+  launches: number;
+  used: Record<string, number>;
+}
+
+interface Command {
+  action: string;
+  id?: string;
+  target?: string;
+  path?: string;
+  preprocess?: unknown;
+  previewTo?: string;
+}
+
+export const FAKE_WINDOW: WindowSelectedData = {
+  windowId: 42,
+  appName: 'Fake Reader',
+  windowTitle: 'page 1',
+  bounds: { x: 100, y: 100, width: 800, height: 600 },
+  ownerPID: 4242
+};
+
+export const FAKE_OCR: OCRData = {
+  imageWidth: 800,
+  imageHeight: 600,
+  observations: [
+    {
+      text: '吾輩は猫である',
+      confidence: 0.98,
+      boundingBox: { x: 0.1, y: 0.8, width: 0.5, height: 0.05 },
+      topLeft: { x: 0.1, y: 0.85 },
+      topRight: { x: 0.6, y: 0.85 },
+      bottomRight: { x: 0.6, y: 0.8 },
+      bottomLeft: { x: 0.1, y: 0.8 }
+    }
+  ]
+};
+
+function argument(name: string): string | null {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] ?? null : null;
+}
+
+let scenario: FakeScenario = {};
+let session: SessionEntry[] = [];
+let replaying = false;
+let statePath: string | null = null;
+let state: FakeState = { launches: 0, used: {} };
+// Replies still to come, by request id, so cancel can drop them
+const running = new Map<string, { action: string; timers: NodeJS.Timeout[] }>();
+let picked = false;
+
+function saveState(): void {
+  if (statePath) {
+    fs.writeFileSync(statePath, JSON.stringify(state));
+  }
+}
+
+function send(response: CLIResponse): void {
+  process.stdout.write(JSON.stringify(response) + '\n');
+}
+
+// Takes the next use of a step list or recorded exchange; returns its index
+function use(key: string): number {
+  const index = state.used[key] ?? 0;
+  state.used[key] = index + 1;
+  saveState();
+  return index;
+}
+
+function stepFor(key: 'ready' | 'pick' | 'scan' | 'scanImage' | 'windowState'): FakeStep {
+  const steps = scenario[key];
+  if (!steps || steps.length === 0) {
+    return {};
+  }
+  return steps[Math.min(use(key), steps.length - 1)];
+}
+
+function later(id: string | undefined, action: string, delayMs: number, fn: () => void): void {
+  const timer = setTimeout(() => {
+    fn();
+    const entry = id === undefined ? undefined : running.get(id);
+    if (entry) {
+      entry.timers = entry.timers.filter((t) => t !== timer);
+    }
+  }, delayMs);
+  if (id !== undefined) {
+    const entry = running.get(id) ?? { action, timers: [] };
+    entry.timers.push(timer);
+    running.set(id, entry);
+  }
+}
+
+function finish(id: string | undefined): void {
+  if (id !== undefined) {
+    running.delete(id);
+  }
+}
+
+// Plays a scripted step: optional garbage, then a crash, silence, or the reply
+function play(step: FakeStep, id: string | undefined, action: string, reply: CLIResponse, next?: () => void): void {
+  if (step.hang) {
+    if (id !== undefined) {
+      running.set(id, running.get(id) ?? { action, timers: [] });
+    }
+    return;
+  }
+  later(id, action, step.delayMs ?? 0, () => {
+    if (step.raw !== undefined) {
+      process.stdout.write(step.raw + '\n');
+    }
+    if (step.crash !== undefined) {
+      process.exit(step.crash);
+    }
+    const response = { ...reply, ...step.reply };
+    send(response);
+    if (response.success && next) {
+      next();
+    } else {
+      finish(id);
+    }
+  });
+}
+
+function windowReply(id: string | undefined): CLIResponse {
+  return { type: 'pick', id, success: true, data: { ...(scenario.window ?? FAKE_WINDOW) } as CLIResponse['data'] };
+}
+
+function scanReply(type: string, id: string | undefined, withBounds: boolean): CLIResponse {
+  const ocr = scenario.ocr ?? FAKE_OCR;
+  const bounds = withBounds ? (scenario.window ?? FAKE_WINDOW).bounds ?? undefined : undefined;
+  return {
+    type,
+    id,
+    success: true,
+    data: { imageWidth: ocr.imageWidth, imageHeight: ocr.imageHeight, observations: ocr.observations, bounds }
+  };
+}
+
+// Stands in for the processed image: the preview holds the filters the scan was asked for
+function writePreview(command: Command): void {
+  if (command.previewTo) {
+    fs.writeFileSync(command.previewTo, JSON.stringify(command.preprocess ?? null));
+  }
+}
+
+function handleScripted(command: Command): void {
+  const { action, id } = command;
+  switch (action) {
+    case 'pick':
+      play(stepFor('pick'), id, action, windowReply(id), () => {
+        picked = true;
+        finish(id);
+      });
+      break;
+
+    case 'scan': {
+      const scan = () => {
+        writePreview(command);
+        play(stepFor('scan'), id, action, scanReply('scan', id, true));
+      };
+      if (picked) {
+        scan();
+      } else {
+        // Like the real CLI, a scan without a window opens the picker first under the scan's id
+        play(stepFor('pick'), id, action, windowReply(id), () => {
+          picked = true;
+          scan();
+        });
+      }
+      break;
+    }
+
+    case 'scanImage':
+      if (!command.path || !fs.existsSync(command.path)) {
+        send({ type: 'scanImage', id, success: false, error: `Cannot read image: ${command.path}` });
+        break;
+      }
+      writePreview(command);
+      play(stepFor('scanImage'), id, action, scanReply('scanImage', id, false));
+      break;
+
+    case 'windowState': {
+      if (!picked) {
+        send({ type: 'windowState', id, success: false, error: 'No window selected' });
+        break;
+      }
+      const window = scenario.window ?? FAKE_WINDOW;
+      play(stepFor('windowState'), id, action, {
+        type: 'windowState',
+        id,
+        success: true,
+        data: {
+          windowId: window.windowId ?? undefined,
+          state: 'visible',
+          bounds: window.bounds ?? undefined,
+          windowTitle: window.windowTitle ?? undefined,
+          frontmost: true
+        }
+      });
+      break;
+    }
+
+    default:
+      send({ type: 'error', id, success: false, error: `Unknown action: ${action}` });
+  }
+}
+
+// Entries recorded after the start of a launch or a command, up to the next command or launch
+function exchangeAfter(start: number): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  for (const entry of session.slice(start + 1)) {
+    if ('command' in entry || 'spawn' in entry) {
+      break;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function replayEntries(entries: SessionEntry[], startAt: number, id: string | undefined, recordedId: unknown, action: string): void {
+  for (const [index, entry] of entries.entries()) {
+    later(id, action, Math.max(0, entry.at - startAt), () => {
+      if ('response' in entry) {
+        const response = { ...entry.response };
+        // Replies carry the id of the live request, not the recorded one
+        if (recordedId !== undefined && response.id === recordedId) {
+          response.id = id;
+        }
+        send(response);
+      } else if ('raw' in entry) {
+        process.stdout.write(entry.raw + '\n');
+      } else if ('exit' in entry) {
+        process.exit(entry.exit ?? 1);
+      }
+      if (index === entries.length - 1) {
+        finish(id);
+      }
+    });
+  }
+}
+
+function handleReplay(command: Command): void {
+  const recorded = session
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => 'command' in entry && entry.command.action === command.action);
+  const match = recorded[use(`replay:${command.action}`)];
+  if (!match || !('command' in match.entry)) {
+    send({ type: command.action, id: command.id, success: false, error: `No recorded reply for ${command.action}` });
+    return;
+  }
+  replayEntries(exchangeAfter(match.index), match.entry.at, command.id, match.entry.command.id, command.action);
+}
+
+function cancel(command: Command): void {
+  let cancelled = false;
+  for (const [id, entry] of running) {
+    if (command.target !== undefined && command.target !== id) {
+      continue;
+    }
+    entry.timers.forEach(clearTimeout);
+    running.delete(id);
+    const message = entry.action === 'pick' ? 'Window selection cancelled' : 'Scan cancelled';
+    send({ type: entry.action, id, success: false, error: message });
+    cancelled = true;
+  }
+  send({ type: 'cancel', id: command.id, success: cancelled, error: cancelled ? undefined : 'Nothing to cancel' });
+}
+
+function handleLine(line: string): void {
+  if (!line.trim()) {
+    return;
+  }
+  let command: Command;
+  try {
+    command = JSON.parse(line);
+  } catch {
+    send({ type: 'error', success: false, error: 'Invalid JSON command' });
+    return;
+  }
+
+  if (command.action === 'quit') {
+    process.exit(0);
+  } else if (command.action === 'cancel') {
+    cancel(command);
+  } else if (replaying) {
+    handleReplay(command);
+  } else {
+    handleScripted(command);
+  }
+}
+
+function start(): void {
+  const scenarioPath = argument('--scenario');
+  const replayPath = argument('--replay');
+  statePath = argument('--state');
+
+  if (scenarioPath) {
+    scenario = JSON.parse(fs.readFileSync(scenarioPath, 'utf8'));
+  }
+  if (replayPath) {
+    replaying = true;
+    session = fs.readFileSync(replayPath, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+  if (statePath && fs.existsSync(statePath)) {
+    state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  }
+  state.launches++;
+  saveState();
+
+  if (replaying) {
+    // The handshake of the matching launch; later launches reuse the last one recorded
+    const spawns = session.map((entry, index) => ({ entry, index })).filter(({ entry }) => 'spawn' in entry);
+    const launch = spawns[Math.min(state.launches, spawns.length) - 1];
+    if (launch) {
+      replayEntries(exchangeAfter(launch.index), launch.entry.at, undefined, undefined, 'ready');
+    }
+  } else {
+    play(stepFor('ready'), undefined, 'ready', { type: 'ready', success: true, data: { version: 'fake' } });
+  }
+
+  const input = readline.createInterface({ input: process.stdin });
+  input.on('line', handleLine);
+  // Like the real CLI, exit when the bridge closes stdin
+  input.on('close', () => process.exit(0));
+}
+
+if (require.main === module) {
+  start();
+}
@@ -0,0 +1,27 @@
+import { afterEach } from 'node:test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Helpers shared by the tests that start servers on localhost
+
+// A port nothing listens on, found by letting the system pick one
+export async function freePort(): Promise<number> {
+  const probe = http.createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+// Returns a function registering cleanups, e.g. stopping a server, that run after each test of
+// the calling file
+export function cleanupAfterEach(): (cleanup: () => void) => void {
+  let cleanups: (() => void)[] = [];
+  afterEach(() => {
+    cleanups.forEach((cleanup) => cleanup());
+    cleanups = [];
+  });
+  return (cleanup) => {
+    cleanups.push(cleanup);
+  };
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryEntry, HistoryStore } from '../main/history-store';
+import { OCRData, WindowSelectedData, observationFromPixelRect } from '../main/ocr-engine';
+
+const TARGET: WindowSelectedData = { windowId: 7, appName: 'Game', windowTitle: 'Chapter 1', bounds: null, ownerPID: 1 };
+
+let tmpDirs: string[] = [];
+
+function historyDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-test-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  tmpDirs = [];
+});
+
+// A scan with one box per text, one under the other, starting at `top`
+function scan(texts: string[], top = 10): OCRData {
+  return {
+    imageWidth: 400,
+    imageHeight: 300,
+    observations: texts.map((text, i) => observationFromPixelRect(text, 1, { left: 10, top: top + i * 24, width: 100, height: 20 }, 400, 300))
+  };
+}
+
+// The entry with the first box's text replaced, the way the overlay's correct-text handler does it
+function corrected(entry: HistoryEntry, text: string): HistoryEntry {
+  const [first, ...rest] = entry.data.observations;
+  const observations = [{ ...first, text, originalText: first.text }, ...rest];
+  return { ...entry, data: { ...entry.data, observations } };
+}
+
+describe('HistoryStore', () => {
+  it('stores scans newest first and finds them by text', () => {
+    const store = new HistoryStore(historyDir());
+    const first = store.add(scan(['一行目']), TARGET);
+    const second = store.add(scan(['二行目']), TARGET);
+    assert.deepEqual(store.list().map((summary) => summary.id), [second.id, first.id]);
+    assert.deepEqual(store.list('一行').map((summary) => summary.id), [first.id]);
+    assert.equal(store.get(first.id)?.windowId, 7);
+  });
+
+  it('rewrites a stored scan after a correction', () => {
+    const dir = historyDir();
+    const store = new HistoryStore(dir);
+    const entry = store.add(scan(['末来']), TARGET);
+    store.update(corrected(entry, '未来'));
+    const reloaded = new HistoryStore(dir);
+    assert.equal(reloaded.get(entry.id)?.data.observations[0].text, '未来');
+    assert.equal(reloaded.list()[0].text, '未来');
+  });
+
+  it('stores a corrected watch scan that added no text as a new entry', () => {
+    const store = new HistoryStore(historyDir());
+    const stored = store.add(scan(['末来']), TARGET);
+    // The box moved: shown in the overlay, but nothing new to store
+    const moved = store.draft(scan(['末来'], 40), TARGET);
+    assert.notEqual(moved.id, stored.id);
+    assert.equal(store.list().length, 1);
+
+    store.update(corrected(moved, '未来'));
+    const earlier = store.get(stored.id)!;
+    assert.equal(earlier.data.observations[0].text, '末来');
+    assert.equal(earlier.timestamp, stored.timestamp);
+    assert.deepEqual(store.list().map((summary) => [summary.id, summary.text]), [[moved.id, '未来'], [stored.id, '末来']]);
+    assert.equal(store.get(moved.id)?.data.observations[0].originalText, '末来');
+  });
+
+  it('leaves deleted entries and superseded drafts alone', () => {
+    const store = new HistoryStore(historyDir());
+    const deleted = store.add(scan(['消す']), TARGET);
+    store.delete(deleted.id);
+    store.update(corrected(deleted, '直す'));
+
+    const superseded = store.draft(scan(['古い']), TARGET);
+    store.draft(scan(['新しい']), TARGET);
+    store.update(corrected(superseded, '直す'));
+    assert.deepEqual(store.list(), []);
+    assert.equal(store.get(deleted.id), null);
+  });
+});
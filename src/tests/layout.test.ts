@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OCRData, observationFromPixelRect } from '../main/ocr-engine';
+import { analyzeLayout, layoutText, layoutTextFor } from '../main/layout';
+
+const WIDTH = 1000;
+const HEIGHT = 800;
+
+// A scan with one box per [text, left, top, width, height] in image pixels
+function page(boxes: [string, number, number, number, number][]): OCRData {
+  return {
+    imageWidth: WIDTH,
+    imageHeight: HEIGHT,
+    observations: boxes.map(([text, left, top, width, height]) =>
+      observationFromPixelRect(text, 1, { left, top, width, height }, WIDTH, HEIGHT))
+  };
+}
+
+// Blocks as lists of lines of observation indices
+function blocks(data: OCRData): number[][][] {
+  return analyzeLayout(data).blocks.map((block) => block.lines.map((line) => line.observations));
+}
+
+describe('analyzeLayout', () => {
+  it('reads a horizontal page line by line, top to bottom', () => {
+    const data = page([
+      ['Footer', 100, 500, 200, 30],
+      ['world', 220, 100, 100, 30],
+      ['Hello', 100, 100, 100, 30],
+      ['Second line', 100, 140, 300, 30]
+    ]);
+    assert.deepEqual(blocks(data), [[[2, 1], [3]], [[0]]]);
+    assert.deepEqual(analyzeLayout(data).order, [2, 1, 3, 0]);
+    assert.equal(layoutText(data), 'Hello world\nSecond line\n\nFooter');
+  });
+
+  it('reads vertical columns right to left and blocks side by side from the right', () => {
+    const data = page([
+      ['別の吹き出し', 300, 100, 40, 300],
+      ['二列目です', 850, 100, 40, 300],
+      ['続き', 900, 420, 40, 100],
+      ['一列目です', 900, 100, 40, 300]
+    ]);
+    const layout = analyzeLayout(data);
+    assert.deepEqual(layout.orientations, ['vertical', 'vertical', 'vertical', 'vertical']);
+    assert.deepEqual(blocks(data), [[[3, 2], [1]], [[0]]]);
+    assert.equal(layoutText(data), '一列目です続き\n二列目です\n\n別の吹き出し');
+  });
+
+  it('reads a mixed page in bands, horizontal and vertical blocks each in their own direction', () => {
+    const data = page([
+      ['キャプション', 100, 700, 300, 30],
+      ['左の列です', 200, 100, 40, 300],
+      ['タイトル', 100, 20, 600, 40],
+      ['右の列です', 800, 100, 40, 300],
+      ['！', 800, 420, 40, 40],
+      ['二列目です', 750, 100, 40, 300]
+    ]);
+    const layout = analyzeLayout(data);
+    // The lone character follows the page, which is mostly vertical
+    assert.deepEqual(layout.orientations, ['horizontal', 'vertical', 'horizontal', 'vertical', 'vertical', 'vertical']);
+    assert.deepEqual(blocks(data), [[[2]], [[3, 4], [5]], [[1]], [[0]]]);
+    assert.equal(layoutTextFor(data, new Set([0, 3])), '右の列です\n\nキャプション');
+  });
+
+  it('handles a scan without boxes', () => {
+    assert.deepEqual(analyzeLayout(page([])), { blocks: [], order: [], orientations: [] });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OCRData, TextObservation } from '../main/ocr-engine';
+import { filterOCRData, isNoise } from '../main/noise-filter';
+
+function observation(text: string, x: number, y: number, width: number, height: number, confidence: number): TextObservation {
+  return {
+    text,
+    confidence,
+    boundingBox: { x, y, width, height },
+    topLeft: { x, y: y + height },
+    topRight: { x: x + width, y: y + height },
+    bottomRight: { x: x + width, y },
+    bottomLeft: { x, y }
+  };
+}
+
+// A Retina capture: twice as many pixels as the window has points
+const scan: OCRData = {
+  imageWidth: 1600,
+  imageHeight: 1200,
+  bounds: { x: 0, y: 0, width: 800, height: 600 },
+  observations: [
+    observation('本文', 0.1, 0.8, 0.5, 0.05, 0.95),
+    observation('・', 0.7, 0.8, 0.01, 0.05, 0.9),
+    observation('ノイズ', 0.1, 0.6, 0.5, 0.05, 0.2)
+  ]
+};
+
+const FILTER = { minBoxWidth: 10, minBoxHeight: 8, minConfidence: 0.5 };
+
+describe('noise filter', () => {
+  it('compares sizes in window points, like the overlay', () => {
+    // 0.01 of 800 points is 8 points, although it is 16 pixels in the capture
+    assert.equal(isNoise(scan.observations[1], scan, FILTER), true);
+    assert.equal(isNoise(scan.observations[1], { ...scan, bounds: undefined }, FILTER), false);
+  });
+
+  it('drops boxes below the confidence threshold', () => {
+    assert.equal(isNoise(scan.observations[2], scan, FILTER), true);
+    assert.equal(isNoise(scan.observations[2], scan, { ...FILTER, minConfidence: 0 }), false);
+  });
+
+  it('keeps the remaining boxes with a fresh layout', () => {
+    const filtered = filterOCRData(scan, FILTER);
+    assert.deepEqual(filtered.observations.map((obs) => obs.text), ['本文']);
+    assert.deepEqual(filtered.layout?.order, [0]);
+  });
+
+  it('returns the scan itself when nothing is filtered', () => {
+    assert.equal(filterOCRData(scan, { minBoxWidth: 0, minBoxHeight: 0, minConfidence: 0 }), scan);
+  });
+});
@@ -0,0 +1,223 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OCRBridge, OCRBridgeOptions, SessionEntry } from '../main/ocr-bridge';
+import { FAKE_OCR, FAKE_WINDOW, FakeScenario } from './fake-ocrcli';
+
+const FAKE_CLI = path.join(__dirname, 'fake-ocrcli.js');
+const TIMEOUTS = { startupMs: 3000, pickMs: 2000, scanMs: 2000 };
+
+let bridges: OCRBridge[] = [];
+let tmpDirs: string[] = [];
+
+function tmpDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-bridge-test-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+// A bridge running the fake CLI with the given scenario or recorded session
+function fakeBridge(source: FakeScenario | { replay: string }, options: OCRBridgeOptions = {}): OCRBridge {
+  const dir = tmpDir();
+  const args = [FAKE_CLI, '--state', path.join(dir, 'state.json')];
+  if ('replay' in source) {
+    args.push('--replay', source.replay);
+  } else {
+    fs.writeFileSync(path.join(dir, 'scenario.json'), JSON.stringify(source));
+    args.push('--scenario', path.join(dir, 'scenario.json'));
+  }
+  const bridge = new OCRBridge(process.execPath, {
+    timeouts: TIMEOUTS,
+    restart: { initialBackoffMs: 10, maxBackoffMs: 50 },
+    ...options,
+    args
+  });
+  bridges.push(bridge);
+  return bridge;
+}
+
+function nextEvent<T>(bridge: OCRBridge, event: string): Promise<T> {
+  return new Promise((resolve) => bridge.once(event, resolve));
+}
+
+afterEach(() => {
+  bridges.forEach((bridge) => bridge.stop());
+  bridges = [];
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  tmpDirs = [];
+});
+
+describe('OCRBridge handshake', () => {
+  it('becomes ready after the ready message', async () => {
+    const bridge = fakeBridge({ ready: [{ delayMs: 50 }] });
+    await bridge.start();
+    assert.equal(bridge.isReady(), true);
+  });
+
+  it('rejects when the CLI never becomes ready', async () => {
+    const bridge = fakeBridge({ ready: [{ hang: true }] }, { timeouts: { ...TIMEOUTS, startupMs: 300 } });
+    await assert.rejects(bridge.start(), /did not become ready in time/);
+    assert.equal(bridge.isReady(), false);
+  });
+
+  it('rejects when the CLI exits before becoming ready', async () => {
+    const bridge = fakeBridge({ ready: [{ crash: 3 }] });
+    await assert.rejects(bridge.start(), /exited with code 3 before becoming ready/);
+  });
+});
+
+describe('OCRBridge requests', () => {
+  it('picks a window and scans it', async () => {
+    const bridge = fakeBridge({});
+    await bridge.start();
+    assert.deepEqual(await bridge.pick(), FAKE_WINDOW);
+    const data = await bridge.scan();
+    assert.deepEqual(data.observations, FAKE_OCR.observations);
+    assert.deepEqual(data.bounds, FAKE_WINDOW.bounds);
+  });
+
+  it('reports the window picked by a scan without a target', async () => {
+    const bridge = fakeBridge({});
+    await bridge.start();
+    const selected = nextEvent(bridge, 'window-selected');
+    await bridge.scan();
+    assert.deepEqual(await selected, FAKE_WINDOW);
+  });
+
+  it('rejects with the error the CLI reports', async () => {
+    const bridge = fakeBridge({ scan: [{ reply: { success: false, error: 'Capture failed' } }] });
+    await bridge.start();
+    await assert.rejects(bridge.scan(), /Capture failed/);
+  });
+
+  it('skips lines that are not JSON', async () => {
+    const bridge = fakeBridge({ ready: [{ raw: 'dyld: warning' }], scan: [{ raw: '{"type": "scan", ' }] });
+    await bridge.start();
+    const data = await bridge.scan();
+    assert.equal(data.observations.length, FAKE_OCR.observations.length);
+  });
+
+  it('times out a scan, cancels it in the CLI and ignores its late reply', async () => {
+    const bridge = fakeBridge({ scan: [{ delayMs: 600 }, {}] }, { timeouts: { ...TIMEOUTS, scanMs: 200 } });
+    await bridge.start();
+    await assert.rejects(bridge.scan(), /OCR scan timed out/);
+    const data = await bridge.scan();
+    assert.equal(data.observations.length, FAKE_OCR.observations.length);
+  });
+
+  it('rejects running and queued requests on cancel', async () => {
+    const bridge = fakeBridge({ scan: [{ hang: true }] });
+    await bridge.start();
+    await bridge.pick();
+    const running = bridge.scan();
+    const queued = bridge.scan();
+    bridge.cancel();
+    await assert.rejects(running, /cancelled/);
+    await assert.rejects(queued, /cancelled/);
+  });
+
+  it('only keeps the latest request of an action with the latest policy', async () => {
+    const bridge = fakeBridge({ scan: [{ delayMs: 100 }] }, { policy: 'latest' });
+    await bridge.start();
+    await bridge.pick();
+    const first = bridge.scan();
+    const second = bridge.scan();
+    await assert.rejects(first, /cancelled/);
+    assert.equal((await second).observations.length, FAKE_OCR.observations.length);
+  });
+
+  it('scans image files and buffers', async () => {
+    const bridge = fakeBridge({});
+    await bridge.start();
+    const image = Buffer.from('89504e470d0a1a0a0000', 'hex');
+    const data = await bridge.scanImage(image);
+    assert.equal(data.bounds, undefined);
+    await assert.rejects(bridge.scanImage(path.join(tmpDir(), 'missing.png')), /Cannot read image/);
+  });
+
+  it('sends preprocessing to the CLI for window and image scans', async () => {
+    const bridge = fakeBridge({});
+    await bridge.start();
+    const preprocess = { scale: 2, grayscale: true, outlineWidth: 1, threshold: 0.5, invert: false };
+    const preview = path.join(tmpDir(), 'preview.png');
+
+    const data = await bridge.scan({ preprocess, previewTo: preview });
+    assert.deepEqual(JSON.parse(fs.readFileSync(preview, 'utf8')), preprocess);
+    assert.equal(data.imageWidth, FAKE_OCR.imageWidth);
+
+    fs.rmSync(preview);
+    await bridge.scanImage(Buffer.from('89504e470d0a1a0a0000', 'hex'), { preprocess, previewTo: preview });
+    assert.deepEqual(JSON.parse(fs.readFileSync(preview, 'utf8')), preprocess);
+  });
+
+  it('reports the state of the picked window', async () => {
+    const bridge = fakeBridge({ windowState: [{}, { reply: { data: { state: 'closed' } } }] });
+    await bridge.start();
+    await assert.rejects(bridge.windowState(), /No window selected/);
+    await bridge.pick();
+    assert.deepEqual(await bridge.windowState(), {
+      state: 'visible',
+      bounds: FAKE_WINDOW.bounds,
+      windowTitle: FAKE_WINDOW.windowTitle,
+      frontmost: true
+    });
+    assert.deepEqual(await bridge.windowState(), { state: 'closed', bounds: null, windowTitle: null, frontmost: false });
+  });
+});
+
+describe('OCRBridge crash handling', () => {
+  it('restarts the CLI and retries a scan that was running when it crashed', async () => {
+    const bridge = fakeBridge({ scan: [{ crash: 1 }, {}] });
+    await bridge.start();
+    await bridge.pick();
+    const restarting = nextEvent<{ attempt: number; code: number }>(bridge, 'restarting');
+    const data = await bridge.scan();
+    assert.equal(data.observations.length, FAKE_OCR.observations.length);
+    assert.equal((await restarting).code, 1);
+  });
+
+  it('does not retry a pick that was running when it crashed', async () => {
+    const bridge = fakeBridge({ pick: [{ crash: 1 }, {}] });
+    await bridge.start();
+    await assert.rejects(bridge.pick(), /crashed while handling the request/);
+    await nextEvent(bridge, 'restarted');
+    assert.deepEqual(await bridge.pick(), FAKE_WINDOW);
+  });
+
+  it('stops restarting after repeated crashes', async () => {
+    const bridge = fakeBridge({ scan: [{ crash: 1 }] }, { restart: { initialBackoffMs: 10, maxCrashes: 1 } });
+    await bridge.start();
+    await bridge.pick();
+    const crashLoop = nextEvent<{ crashes: number }>(bridge, 'crash-loop');
+    // Crashes once, is retried after the restart and crashes again
+    await assert.rejects(bridge.scan(), /crashed while handling the request/);
+    assert.equal((await crashLoop).crashes, 2);
+    await assert.rejects(bridge.scan(), /not running/);
+  });
+});
+
+describe('OCRBridge recording', () => {
+  it('records a session that the fake CLI can replay', async () => {
+    const session = path.join(tmpDir(), 'session.jsonl');
+    const recorder = fakeBridge({ scan: [{ delayMs: 20 }] }, { recordTo: session });
+    await recorder.start();
+    await recorder.scan();
+    await assert.rejects(recorder.scanImage(path.join(tmpDir(), 'missing.png')), /Cannot read image/);
+    recorder.stop();
+
+    const entries: SessionEntry[] = fs.readFileSync(session, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.ok('spawn' in entries[0]);
+    assert.ok(entries.some((entry) => 'command' in entry && entry.command.action === 'scan'));
+    assert.ok(entries.some((entry) => 'response' in entry && entry.response.type === 'ready'));
+
+    const replay = fakeBridge({ replay: session });
+    await replay.start();
+    const selected = nextEvent(replay, 'window-selected');
+    assert.deepEqual((await replay.scan()).observations, FAKE_OCR.observations);
+    assert.deepEqual(await selected, FAKE_WINDOW);
+    await assert.rejects(replay.scanImage(Buffer.from('ffd8ff00', 'hex')), /Cannot read image/);
+    await assert.rejects(replay.pick(), /No recorded reply for pick/);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OCRData, observationFromPixelRect } from '../main/ocr-engine';
+import { diffOCRData, newTextIndices } from '../main/ocr-diff';
+
+// A 400x300 scan with one 100x20 box per [text, left, top]
+function scan(boxes: [string, number, number][], width = 400, height = 300): OCRData {
+  return {
+    imageWidth: width,
+    imageHeight: height,
+    observations: boxes.map(([text, left, top]) =>
+      observationFromPixelRect(text, 1, { left: left * width / 400, top: top * height / 300, width: 100 * width / 400, height: 20 * height / 300 }, width, height))
+  };
+}
+
+describe('diffOCRData', () => {
+  it('matches boxes by position and marks changed text', () => {
+    const previous = scan([['こんにちは', 10, 10], ['さようなら', 10, 50], ['消える', 10, 90]]);
+    const next = scan([['こんにちは', 12, 11], ['またね', 10, 50], ['新しい', 200, 200]]);
+    const diff = diffOCRData(previous, next);
+    assert.deepEqual(diff.matches, [
+      { previous: 0, next: 0, changed: false },
+      { previous: 1, next: 1, changed: true }
+    ]);
+    assert.deepEqual(diff.added, [2]);
+    assert.deepEqual(diff.removed, [2]);
+    assert.deepEqual(newTextIndices(diff), [1, 2]);
+  });
+
+  it('does not count boxes that barely overlap as the same region', () => {
+    const diff = diffOCRData(scan([['a', 10, 10]]), scan([['a', 70, 10]]));
+    assert.deepEqual(diff.matches, []);
+    assert.deepEqual(diff.added, [0]);
+    assert.deepEqual(diff.removed, [0]);
+  });
+
+  it('prefers the box with the same text when boxes overlap several', () => {
+    const previous = scan([['上', 10, 10], ['下', 10, 16]]);
+    const next = scan([['下', 10, 14]]);
+    const diff = diffOCRData(previous, next);
+    assert.deepEqual(diff.matches, [{ previous: 1, next: 0, changed: false }]);
+    assert.deepEqual(diff.removed, [0]);
+    assert.deepEqual(newTextIndices(diff), []);
+  });
+
+  it('uses each box once', () => {
+    const diff = diffOCRData(scan([['a', 10, 10]]), scan([['a', 10, 10], ['a', 12, 12]]));
+    assert.equal(diff.matches.length, 1);
+    assert.equal(diff.added.length, 1);
+  });
+
+  it('matches boxes of a resized window by their normalized position', () => {
+    const diff = diffOCRData(scan([['a', 10, 10], ['b', 200, 100]]), scan([['a', 10, 10], ['b', 200, 100]], 800, 600));
+    assert.deepEqual(newTextIndices(diff), []);
+    assert.deepEqual(diff.removed, []);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NO_PREPROCESSING, imageMagickArgs, isPreprocessing, parsePreprocess } from '../main/preprocess';
+
+describe('imageMagickArgs', () => {
+  it('applies the filters in pipeline order', () => {
+    assert.deepEqual(imageMagickArgs({ scale: 2, grayscale: true, outlineWidth: 2, threshold: 0.5, invert: true }), [
+      '-colorspace', 'Gray',
+      '-morphology', 'Close', 'Disk:1.5',
+      '-filter', 'Lanczos', '-resize', '200%',
+      '-threshold', '50%',
+      '-negate'
+    ]);
+  });
+
+  it('turns the image gray before thresholding it', () => {
+    assert.deepEqual(imageMagickArgs({ ...NO_PREPROCESSING, threshold: 0.4 }), ['-colorspace', 'Gray', '-threshold', '40%']);
+  });
+
+  it('leaves the image alone without filters', () => {
+    assert.deepEqual(imageMagickArgs(NO_PREPROCESSING), []);
+    assert.equal(isPreprocessing(NO_PREPROCESSING), false);
+    assert.equal(isPreprocessing(undefined), false);
+    assert.equal(isPreprocessing({ ...NO_PREPROCESSING, invert: true }), true);
+  });
+});
+
+describe('parsePreprocess', () => {
+  it('reads the batch option', () => {
+    assert.deepEqual(parsePreprocess('scale=3, grayscale,outline=1,threshold=0.6,invert'), {
+      scale: 3,
+      grayscale: true,
+      outlineWidth: 1,
+      threshold: 0.6,
+      invert: true
+    });
+    assert.deepEqual(parsePreprocess(''), NO_PREPROCESSING);
+  });
+
+  it('rejects unknown steps and out-of-range values', () => {
+    assert.throws(() => parsePreprocess('sharpen'), /Unknown preprocessing step/);
+    assert.throws(() => parsePreprocess('scale=8'), /scale/);
+    assert.throws(() => parsePreprocess('threshold'), /threshold/);
+    assert.throws(() => parsePreprocess('invert=1'), /no value/);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_SETTINGS } from '../main/settings';
+import { Profile, ProfileStore, matchProfile, profileSettings } from '../main/profiles';
+
+let tmpDirs: string[] = [];
+
+function storePath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-test-'));
+  tmpDirs.push(dir);
+  return path.join(dir, 'profiles.json');
+}
+
+function profile(id: string, appName: string, windowTitle: string): Profile {
+  return { id, name: id, appName, windowTitle, region: null, settings: {}, translate: false };
+}
+
+afterEach(() => {
+  tmpDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  tmpDirs = [];
+});
+
+describe('matchProfile', () => {
+  const profiles = [profile('app', 'Game', ''), profile('title', 'Game', 'Chapter'), profile('longer', 'Game', 'Chapter 2')];
+
+  it('prefers the profile matching most of the window title', () => {
+    assert.equal(matchProfile(profiles, 'Game', 'Game - Chapter 2')?.id, 'longer');
+    assert.equal(matchProfile(profiles, 'Game', 'Game - Chapter 1')?.id, 'title');
+    assert.equal(matchProfile(profiles, 'Game', 'Title screen')?.id, 'app');
+    assert.equal(matchProfile(profiles, 'Game', null)?.id, 'app');
+  });
+
+  it('only matches the same app', () => {
+    assert.equal(matchProfile(profiles, 'Browser', 'Chapter 2'), null);
+    assert.equal(matchProfile(profiles, null, 'Chapter 2'), null);
+  });
+});
+
+describe('profileSettings', () => {
+  it('applies the overrides on top of the global settings', () => {
+    const settings = profileSettings(DEFAULT_SETTINGS, {
+      ...profile('p', 'Game', ''),
+      settings: { recognition: { languages: ['en'] }, watch: { intervalMs: 500 } }
+    });
+    assert.deepEqual(settings.recognition.languages, ['en']);
+    assert.equal(settings.watch.intervalMs, 500);
+    assert.deepEqual(settings.noiseFilter, DEFAULT_SETTINGS.noiseFilter);
+    assert.deepEqual(settings.shortcuts, DEFAULT_SETTINGS.shortcuts);
+  });
+});
+
+describe('ProfileStore', () => {
+  it('keeps profiles across restarts', () => {
+    const filePath = storePath();
+    const store = new ProfileStore(filePath);
+    const created = store.create('Game', 'Chapter', { x: 0, y: 0, width: 1, height: 0.3 }, { watch: { intervalMs: 800 } });
+    store.updateSettings(created.id, { overlay: { frameWidth: 4 } });
+
+    const reloaded = new ProfileStore(filePath).get(created.id);
+    assert.deepEqual(reloaded?.region, { x: 0, y: 0, width: 1, height: 0.3 });
+    assert.deepEqual(reloaded?.settings, { watch: { intervalMs: 800 }, overlay: { frameWidth: 4 } });
+  });
+
+  it('rejects settings profiles cannot hold and keeps the valid ones', () => {
+    const store = new ProfileStore(storePath());
+    const created = store.create('Game', '', null, {});
+    const { profile: updated, errors } = store.updateSettings(created.id, {
+      watch: { intervalMs: -1 },
+      overlay: { frameWidth: 2 },
+      shortcuts: { scan: 'F9' }
+    });
+    assert.deepEqual(errors.map((error) => error.path), ['watch.intervalMs', 'shortcuts']);
+    assert.equal(updated?.settings.watch?.intervalMs, undefined);
+    assert.deepEqual(updated?.settings.overlay, { frameWidth: 2 });
+  });
+
+  it('imports exported profiles, replacing the ones for the same window', () => {
+    const source = new ProfileStore(storePath());
+    source.create('Game', 'Chapter', null, { recognition: { languages: ['ja'] } });
+    const exported = source.exportProfiles();
+
+    const target = new ProfileStore(storePath());
+    const existing = target.create('Game', 'Chapter', null, {});
+    target.create('Other', '', null, {});
+    const { imported, errors } = target.importProfiles(exported);
+
+    assert.equal(imported.length, 1);
+    assert.deepEqual(errors, []);
+    assert.equal(target.list().length, 2);
+    assert.equal(target.get(existing.id), null);
+    assert.deepEqual(target.match('Game', 'Chapter 1')?.settings, { recognition: { languages: ['ja'] } });
+  });
+
+  it('reports unusable entries in imported files', () => {
+    const store = new ProfileStore(storePath());
+    assert.deepEqual(store.importProfiles('not json').errors.map((error) => error.path), ['(file)']);
+
+    const { imported, errors } = store.importProfiles(JSON.stringify({
+      version: 1,
+      profiles: [{ windowTitle: 'x' }, { appName: 'Game', region: 'top', settings: { overlay: { frameColor: 'red' } } }]
+    }));
+    assert.equal(imported.length, 1);
+    assert.deepEqual(errors.map((error) => error.path), [
+      'profiles.0.appName',
+      'profiles.1.settings.overlay.frameColor',
+      'profiles.1.region'
+    ]);
+    assert.equal(imported[0].region, null);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OCRData, observationFromPixelRect } from '../main/ocr-engine';
+import { NewTextEvent, ScanWatcher, WatchUpdate } from '../main/scan-watcher';
+
+const PAGE = scan(['一行目', '二行目']);
+
+// A scan with one box per text, one under the other
+function scan(texts: string[]): OCRData {
+  return {
+    imageWidth: 400,
+    imageHeight: 300,
+    observations: texts.map((text, i) => observationFromPixelRect(text, 1, { left: 10, top: 10 + i * 24, width: 100, height: 20 }, 400, 300))
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function nextEvent<T>(watcher: ScanWatcher, event: string): Promise<T> {
+  return new Promise((resolve) => watcher.once(event, resolve));
+}
+
+let watchers: ScanWatcher[] = [];
+
+// A watcher returning the given scans in turn, then the last one again
+function watcher(results: (OCRData | Error)[], intervalMs = 0): { watcher: ScanWatcher; calls: number[] } {
+  const calls: number[] = [];
+  const created = new ScanWatcher(async () => {
+    calls.push(Date.now());
+    const result = results[Math.min(calls.length, results.length) - 1];
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }, intervalMs);
+  watchers.push(created);
+  return { watcher: created, calls };
+}
+
+afterEach(() => {
+  watchers.forEach((item) => item.stop());
+  watchers = [];
+});
+
+describe('ScanWatcher', () => {
+  it('reports every box as new for the first scan without a previous one', async () => {
+    const { watcher: scanWatcher } = watcher([PAGE]);
+    const update = nextEvent<WatchUpdate>(scanWatcher, 'update');
+    const newText = nextEvent<NewTextEvent>(scanWatcher, 'new-text');
+    scanWatcher.start();
+    assert.equal((await update).diff, null);
+    const event = await newText;
+    assert.deepEqual(event.observations, [0, 1]);
+    assert.equal(event.text, '一行目\n二行目');
+  });
+
+  it('does not report text already on screen when started with the overlay\'s scan', async () => {
+    const { watcher: scanWatcher } = watcher([PAGE]);
+    let newTextEvents = 0;
+    scanWatcher.on('new-text', () => newTextEvents++);
+    const update = nextEvent<WatchUpdate>(scanWatcher, 'update');
+    scanWatcher.start(PAGE);
+    const { diff } = await update;
+    assert.deepEqual(diff?.added, []);
+    assert.ok(diff?.matches.every((match) => !match.changed));
+    await delay(10);
+    assert.equal(newTextEvents, 0);
+  });
+
+  it('reports boxes whose text changed as new text', async () => {
+    const { watcher: scanWatcher } = watcher([scan(['一行目', '三行目'])]);
+    const newText = nextEvent<NewTextEvent>(scanWatcher, 'new-text');
+    scanWatcher.start(PAGE);
+    assert.deepEqual((await newText).observations, [1]);
+  });
+
+  it('coalesces triggers during a scan into one follow-up scan', async () => {
+    let scans = 0;
+    const scanWatcher = new ScanWatcher(async () => {
+      scans++;
+      await delay(20);
+      return PAGE;
+    }, 0);
+    watchers.push(scanWatcher);
+    scanWatcher.start();
+    await delay(5);
+    scanWatcher.trigger();
+    scanWatcher.trigger();
+    scanWatcher.trigger();
+    await delay(80);
+    assert.equal(scans, 2);
+  });
+
+  it('backs off after failed scans', async () => {
+    const { watcher: scanWatcher, calls } = watcher([new Error('capture failed')], 10);
+    const failures: Error[] = [];
+    scanWatcher.on('scan-failed', (err: Error) => failures.push(err));
+    scanWatcher.start();
+    while (calls.length < 4) {
+      await delay(10);
+    }
+    scanWatcher.stop();
+    const gaps = calls.slice(1).map((time, i) => time - calls[i]);
+    // 20, 40 and 80 ms after the first, second and third failure
+    assert.ok(gaps[0] >= 19 && gaps[1] >= 39 && gaps[2] >= 79, `gaps ${gaps.join(', ')}`);
+    assert.equal(failures[0].message, 'capture failed');
+  });
+
+  it('ignores a scan that finishes after stopping', async () => {
+    const scanWatcher = new ScanWatcher(async () => {
+      await delay(20);
+      return PAGE;
+    }, 0);
+    watchers.push(scanWatcher);
+    let updates = 0;
+    scanWatcher.on('update', () => updates++);
+    scanWatcher.start();
+    await delay(5);
+    scanWatcher.stop();
+    await delay(40);
+    assert.equal(updates, 0);
+  });
+});
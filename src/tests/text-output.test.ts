@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as net from 'net';
+import { OCRData, observationFromPixelRect } from '../main/ocr-engine';
+import { TextOutput, WebSocketBroadcaster } from '../main/text-output';
+import { cleanupAfterEach, freePort } from './helpers';
+
+// Example handshake from RFC 6455, section 1.3
+const KEY = 'dGhlIHNhbXBsZSBub25jZQ==';
+const ACCEPT = 's3pPLMBiTxaQ9kYGzzhZRbK+xOo=';
+
+const cleanup = cleanupAfterEach();
+
+// A scan with one box per line, one under the other
+function scan(texts: string[]): OCRData {
+  return {
+    imageWidth: 400,
+    imageHeight: 300,
+    observations: texts.map((text, i) => observationFromPixelRect(text, 1, { left: 10, top: 10 + i * 24, width: 100, height: 20 }, 400, 300))
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface Client {
+  handshake: string;
+  // Payloads of the text frames received so far
+  messages: string[];
+}
+
+// Opens a WebSocket with a raw upgrade request and decodes the server's unmasked text frames
+async function connect(port: number): Promise<Client> {
+  const socket = net.connect(port, '127.0.0.1');
+  cleanup(() => socket.destroy());
+  socket.write([
+    'GET / HTTP/1.1',
+    `Host: 127.0.0.1:${port}`,
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Key: ${KEY}`,
+    'Sec-WebSocket-Version: 13',
+    '',
+    ''
+  ].join('\r\n'));
+
+  return new Promise((resolve) => {
+    const client: Client = { handshake: '', messages: [] };
+    let buffered = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      if (!client.handshake) {
+        const end = buffered.indexOf('\r\n\r\n');
+        if (end < 0) {
+          return;
+        }
+        client.handshake = buffered.subarray(0, end).toString('utf8');
+        buffered = buffered.subarray(end + 4);
+        resolve(client);
+      }
+      while (buffered.length >= 2) {
+        let length = buffered[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+          length = buffered.readUInt16BE(2);
+          offset = 4;
+        }
+        if (buffered.length < offset + length) {
+          break;
+        }
+        assert.equal(buffered[0], 0x81, 'a final, unmasked text frame');
+        client.messages.push(buffered.subarray(offset, offset + length).toString('utf8'));
+        buffered = buffered.subarray(offset + length);
+      }
+    });
+  });
+}
+
+describe('WebSocketBroadcaster', () => {
+  it('accepts a WebSocket handshake and sends text frames', async () => {
+    const broadcaster = new WebSocketBroadcaster();
+    cleanup(() => broadcaster.stop());
+    const port = await freePort();
+    await broadcaster.start(port);
+
+    const client = await connect(port);
+    assert.match(client.handshake, /^HTTP\/1\.1 101 Switching Protocols\r\n/);
+    assert.ok(client.handshake.includes(`Sec-WebSocket-Accept: ${ACCEPT}`));
+    assert.equal(broadcaster.clientCount(), 1);
+
+    const long = 'あ'.repeat(100);
+    broadcaster.broadcast('こんにちは');
+    broadcaster.broadcast(long);
+    await delay(20);
+    assert.deepEqual(client.messages, ['こんにちは', long]);
+  });
+});
+
+describe('TextOutput', () => {
+  it('sends the lines of a scan once, however often it is published', async () => {
+    const copied: string[] = [];
+    const output = new TextOutput((text) => copied.push(text));
+    cleanup(() => output.stop());
+    const port = await freePort();
+    await output.configure({ websocket: { enabled: true, port }, clipboard: true });
+    const client = await connect(port);
+
+    const page = scan(['一行目', '二行目']);
+    assert.deepEqual(output.publish(page), ['一行目', '二行目']);
+    assert.deepEqual(output.publish(page), []);
+    assert.deepEqual(output.publish(scan(['二行目', '三行目'])), ['三行目']);
+    await delay(20);
+    assert.deepEqual(client.messages, ['一行目\n二行目', '三行目']);
+    assert.deepEqual(copied, ['一行目\n二行目', '三行目']);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_SETTINGS } from '../main/settings';
+import {
+  CommandTranslationProvider,
+  LibreTranslateProvider,
+  TranslationProvider,
+  Translator,
+  createTranslationProvider
+} from '../main/translation';
+
+let servers: http.Server[] = [];
+
+afterEach(() => {
+  servers.forEach((server) => server.close());
+  servers = [];
+});
+
+// Counts calls and fails for texts starting with "fail"
+function countingProvider(): TranslationProvider & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    name: 'counting',
+    calls,
+    async translate(text: string, source: string, target: string) {
+      calls.push(text);
+      if (text.startsWith('fail')) {
+        throw new Error('provider failed');
+      }
+      return `${text} (${source}->${target})`;
+    }
+  };
+}
+
+// A LibreTranslate stand-in that echoes the request it got
+async function fakeLibreTranslate(status = 200): Promise<string> {
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(status === 200
+        ? JSON.stringify({ translatedText: `${request.url} ${body}` })
+        : JSON.stringify({ error: 'Invalid API key' }));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+}
+
+describe('Translator', () => {
+  it('asks the provider once per text and languages', async () => {
+    const provider = countingProvider();
+    const translator = new Translator();
+    const [first, second] = await Promise.all([
+      translator.translate(provider, 'こんにちは', 'ja', 'en'),
+      translator.translate(provider, 'こんにちは', 'ja', 'en')
+    ]);
+    assert.equal(first, 'こんにちは (ja->en)');
+    assert.equal(second, first);
+    await translator.translate(provider, 'こんにちは', 'ja', 'de');
+    assert.deepEqual(provider.calls, ['こんにちは', 'こんにちは']);
+
+    translator.clear();
+    await translator.translate(provider, 'こんにちは', 'ja', 'en');
+    assert.equal(provider.calls.length, 3);
+  });
+
+  it('tries failed texts again', async () => {
+    const provider = countingProvider();
+    const translator = new Translator();
+    await assert.rejects(translator.translate(provider, 'fail', 'ja', 'en'), /provider failed/);
+    await assert.rejects(translator.translate(provider, 'fail', 'ja', 'en'), /provider failed/);
+    assert.equal(provider.calls.length, 2);
+  });
+});
+
+describe('CommandTranslationProvider', () => {
+  it('passes the text on stdin and the languages as arguments', async () => {
+    const script = 'let s = ""; process.stdin.on("data", (d) => (s += d)).on("end", () => console.log(process.argv.slice(1).join(" ") + ": " + s));';
+    const provider = new CommandTranslationProvider(process.execPath, ['-e', script, '{source}', '{target}']);
+    assert.equal(await provider.translate('猫', 'ja', 'en'), 'ja en: 猫');
+  });
+
+  it('reports what the command printed when it fails', async () => {
+    const provider = new CommandTranslationProvider(process.execPath, ['-e', 'console.error("no model"); process.exit(2)']);
+    await assert.rejects(provider.translate('猫', 'ja', 'en'), /no model/);
+  });
+
+  it('reports a missing command', async () => {
+    const provider = new CommandTranslationProvider('no-such-translator-command', []);
+    await assert.rejects(provider.translate('猫', 'ja', 'en'), /not installed or not on PATH/);
+  });
+});
+
+describe('LibreTranslateProvider', () => {
+  it('posts the text to the translate endpoint', async () => {
+    const provider = new LibreTranslateProvider(await fakeLibreTranslate(), 'key');
+    const reply = await provider.translate('猫', 'ja', 'en');
+    assert.ok(reply.startsWith('/translate '));
+    assert.deepEqual(JSON.parse(reply.slice('/translate '.length)), {
+      q: '猫', source: 'ja', target: 'en', format: 'text', api_key: 'key'
+    });
+  });
+
+  it('reports the error the server returns', async () => {
+    const provider = new LibreTranslateProvider(await fakeLibreTranslate(403), '');
+    await assert.rejects(provider.translate('猫', 'ja', 'en'), /Invalid API key/);
+  });
+});
+
+describe('createTranslationProvider', () => {
+  it('needs a command for the command provider', () => {
+    const settings = { ...DEFAULT_SETTINGS.translation, provider: 'command' as const };
+    assert.throws(() => createTranslationProvider(settings), /No translation command/);
+    assert.equal(createTranslationProvider(DEFAULT_SETTINGS.translation).name, 'LibreTranslate');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WindowBounds, WindowState } from '../main/ocr-engine';
+import { WindowTracker } from '../main/window-tracker';
+
+const BOUNDS: WindowBounds = { x: 100, y: 100, width: 800, height: 600 };
+
+function visible(bounds: WindowBounds, changes: Partial<WindowState> = {}): WindowState {
+  return { state: 'visible', bounds, windowTitle: 'page 1', frontmost: true, ...changes };
+}
+
+// Runs a tracker over the given poll results and collects its events until the polls run out
+function track(states: (WindowState | Error)[], start: WindowBounds | null = BOUNDS, title = 'page 1'): Promise<string[]> {
+  const events: string[] = [];
+  return new Promise((resolve) => {
+    let polls = 0;
+    const tracker = new WindowTracker(async () => {
+      const state = states[polls++];
+      if (state === undefined) {
+        tracker.stop();
+        resolve(events);
+        throw new Error('done');
+      }
+      if (state instanceof Error) {
+        throw state;
+      }
+      return state;
+    }, 5);
+    for (const event of ['moved', 'resized', 'hidden', 'shown', 'focused', 'closed']) {
+      tracker.on(event, (bounds?: WindowBounds) => {
+        events.push(bounds ? `${event} ${bounds.x},${bounds.y} ${bounds.width}x${bounds.height}` : event);
+      });
+    }
+    tracker.on('retitled', (windowTitle: string) => events.push(`retitled ${windowTitle}`));
+    tracker.on('closed', () => resolve(events));
+    tracker.start(start, title);
+  });
+}
+
+describe('WindowTracker', () => {
+  it('reports moves and resizes, not unchanged polls', async () => {
+    const events = await track([
+      visible(BOUNDS),
+      visible({ ...BOUNDS, x: 150 }),
+      visible({ ...BOUNDS, x: 150.4 }),
+      visible({ ...BOUNDS, x: 150, width: 1024 })
+    ]);
+    assert.deepEqual(events, ['moved 150,100 800x600', 'resized 150,100 1024x600']);
+  });
+
+  it('reports the first position when started without bounds', async () => {
+    assert.deepEqual(await track([visible(BOUNDS)], null), ['moved 100,100 800x600']);
+  });
+
+  it('reports hiding once and showing where the window came back', async () => {
+    const events = await track([
+      visible(BOUNDS, { state: 'hidden' }),
+      visible(BOUNDS, { state: 'hidden' }),
+      visible({ ...BOUNDS, y: 0 })
+    ]);
+    assert.deepEqual(events, ['hidden', 'moved 100,0 800x600', 'shown']);
+  });
+
+  it('skips failed polls and stops after the window closed', async () => {
+    const events = await track([
+      new Error('cancelled'),
+      { state: 'closed', bounds: null, windowTitle: null, frontmost: false },
+      visible({ ...BOUNDS, x: 0 })
+    ]);
+    assert.deepEqual(events, ['closed']);
+  });
+
+  it('reports title changes and the app coming to the front', async () => {
+    const events = await track([
+      visible(BOUNDS),
+      visible(BOUNDS, { frontmost: false }),
+      visible(BOUNDS, { frontmost: false, windowTitle: 'page 2' }),
+      visible(BOUNDS, { windowTitle: 'page 2' }),
+      visible(BOUNDS, { windowTitle: 'page 2' })
+    ]);
+    assert.deepEqual(events, ['retitled page 2', 'focused']);
+  });
+
+  it('does not report bounds it was told about', async () => {
+    const tracker = new WindowTracker(async () => (visible({ ...BOUNDS, x: 300 })), 5);
+    const events: string[] = [];
+    tracker.on('moved', () => events.push('moved'));
+    tracker.start(BOUNDS);
+    tracker.setKnownBounds({ ...BOUNDS, x: 300 });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    tracker.stop();
+    assert.deepEqual(events, []);
+  });
+});
@@ -1,6 +1,7 @@
 import Foundation
 import AppKit
 import CoreGraphics
+import CoreImage
 import Vision
 import ScreenCaptureKit
 
@@ -8,12 +9,28 @@ import ScreenCaptureKit
 
 struct Command: Codable {
     let action: String
+    let id: String?        // Echoed back in every response to this command
+    let target: String?    // Request id to abort (cancel only)
     let languages: [String]?
     let saveTo: String?
+    let path: String?  // Image file to recognize (scanImage only)
+    let region: NormalizedRect?  // Scan only this part of the window (normalized, bottom-left origin)
+    let preprocess: PreprocessOptions?  // Filters applied to the capture before recognition
+    let previewTo: String?  // Where to write the image as recognized, after preprocessing
+}
+
+// Same fields and order as PreprocessOptions in src/main/preprocess.ts
+struct PreprocessOptions: Codable {
+    let scale: Double
+    let grayscale: Bool
+    let outlineWidth: Double
+    let threshold: Double
+    let invert: Bool
 }
 
 struct Response: Codable {
     let type: String
+    let id: String?
     let success: Bool
     let data: ResponseData?
     let error: String?
@@ -23,6 +40,7 @@ enum ResponseData: Codable {
     case windowSelected(WindowSelectedData)
     case ocr(OCRData)
     case ready(ReadyData)
+    case windowState(WindowStateData)
 
     func encode(to encoder: Encoder) throws {
         var container = encoder.singleValueContainer()
@@ -30,6 +48,7 @@ enum ResponseData: Codable {
         case .windowSelected(let data): try container.encode(data)
         case .ocr(let data): try container.encode(data)
         case .ready(let data): try container.encode(data)
+        case .windowState(let data): try container.encode(data)
         }
     }
 
@@ -41,6 +60,8 @@ enum ResponseData: Codable {
             self = .ocr(data)
         } else if let data = try? container.decode(ReadyData.self) {
             self = .ready(data)
+        } else if let data = try? container.decode(WindowStateData.self) {
+            self = .windowState(data)
         } else {
             throw DecodingError.dataCorrupted(.init(codingPath: [], debugDescription: "Unknown data type"))
         }
@@ -66,6 +87,14 @@ struct WindowBounds: Codable {
     let height: Double
 }
 
+struct WindowStateData: Codable {
+    let windowId: UInt32?
+    let state: String      // "visible", "hidden" or "closed"
+    let bounds: WindowBounds?
+    let windowTitle: String?
+    let frontmost: Bool    // The window's app is the active one
+}
+
 struct OCRData: Codable {
     let imageWidth: Int
     let imageHeight: Int
@@ -95,6 +124,17 @@ struct NormalizedPoint: Codable {
     let y: Double
 }
 
+// MARK: - Images
+
+let ciContext = CIContext()
+
+func writePNG(_ image: CGImage, to path: String) {
+    let bitmapRep = NSBitmapImageRep(cgImage: image)
+    if let pngData = bitmapRep.representation(using: .png, properties: [:]) {
+        try? pngData.write(to: URL(fileURLWithPath: path))
+    }
+}
+
 // MARK: - Output Helper
 
 func sendResponse(_ response: Response) {
@@ -107,12 +147,12 @@ func sendResponse(_ response: Response) {
     }
 }
 
-func sendError(type: String, message: String) {
-    sendResponse(Response(type: type, success: false, data: nil, error: message))
+func sendError(type: String, id: String?, message: String) {
+    sendResponse(Response(type: type, id: id, success: false, data: nil, error: message))
 }
 
-func sendSuccess(type: String, data: ResponseData) {
-    sendResponse(Response(type: type, success: true, data: data, error: nil))
+func sendSuccess(type: String, id: String?, data: ResponseData?) {
+    sendResponse(Response(type: type, id: id, success: true, data: data, error: nil))
 }
 
 // MARK: - App Delegate
@@ -120,7 +160,11 @@ func sendSuccess(type: String, data: ResponseData) {
 class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserver {
     var currentFilter: SCContentFilter?
     var currentWindowID: CGWindowID?
-    var pendingCommand: Command?
+    var pickRequest: Command?      // Command waiting on the picker (pick, or scan without a window)
+    var pendingCommand: Command?   // Scan to run once the picker returns
+    var scanTask: Task<Void, Never>?
+    var scanRequestId: String?
+    var scanAction = "scan"        // Action of the running scan, "scan" or "scanImage"
 
     func applicationDidFinishLaunching(_ notification: Notification) {
         // Hide from dock
@@ -131,7 +175,7 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
         picker.add(self)
 
         // Send ready message
-        sendSuccess(type: "ready", data: .ready(ReadyData(version: "1.0.0")))
+        sendSuccess(type: "ready", id: nil, data: .ready(ReadyData(version: "1.0.0")))
 
         // Start reading stdin in background
         DispatchQueue.global(qos: .userInitiated).async {
@@ -146,7 +190,7 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
             guard let data = line.data(using: .utf8),
                   let command = try? JSONDecoder().decode(Command.self, from: data) else {
                 DispatchQueue.main.async {
-                    sendError(type: "error", message: "Invalid JSON command")
+                    sendError(type: "error", id: nil, message: "Invalid JSON command")
                 }
                 continue
             }
@@ -165,22 +209,65 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
     func handleCommand(_ command: Command) {
         switch command.action {
         case "pick":
+            pickRequest = command
             showPicker()
 
         case "scan":
-            pendingCommand = command
             if currentFilter != nil {
                 executeScan(command)
             } else {
+                pickRequest = command
+                pendingCommand = command
                 showPicker()
             }
 
+        case "scanImage":
+            executeImageScan(command)
+
+        case "windowState":
+            reportWindowState(command)
+
+        case "cancel":
+            cancelRequest(command)
+
         case "quit":
             NSApp.terminate(nil)
 
         default:
-            sendError(type: "error", message: "Unknown action: \(command.action)")
+            sendError(type: "error", id: command.id, message: "Unknown action: \(command.action)")
+        }
+    }
+
+    // MARK: - Cancellation
+
+    // Aborts the picker or running scan with the given id (or whatever is running if no target).
+    // The cancelled request gets its own error response, the cancel command gets a separate ack.
+    func cancelRequest(_ command: Command) {
+        var cancelled = false
+
+        if let pick = pickRequest, command.target == nil || pick.id == command.target {
+            SCContentSharingPicker.shared.isActive = false
+            sendError(type: "pick", id: pick.id, message: "Window selection cancelled")
+            pickRequest = nil
+            pendingCommand = nil
+            cancelled = true
+        }
+
+        if let task = scanTask, command.target == nil || scanRequestId == command.target {
+            task.cancel()
+            sendError(type: scanAction, id: scanRequestId, message: "Scan cancelled")
+            scanTask = nil
+            scanRequestId = nil
+            cancelled = true
         }
+
+        sendResponse(Response(
+            type: "cancel",
+            id: command.id,
+            success: cancelled,
+            data: nil,
+            error: cancelled ? nil : "Nothing to cancel"
+        ))
     }
 
     // MARK: - Window Bounds Helper
@@ -201,6 +288,34 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
         return WindowBounds(x: Double(x), y: Double(y), width: Double(width), height: Double(height))
     }
 
+    // Bounds and visibility of the picked window, polled by the app so the overlay follows it.
+    // Minimized windows, windows of hidden apps and windows on another Space are not on screen.
+    func reportWindowState(_ command: Command) {
+        guard let windowID = currentWindowID else {
+            sendError(type: "windowState", id: command.id, message: "No window selected")
+            return
+        }
+
+        let windowList = CGWindowListCopyWindowInfo([.optionIncludingWindow], windowID) as? [[String: Any]]
+        guard let windowInfo = windowList?.first else {
+            let data = WindowStateData(windowId: windowID, state: "closed", bounds: nil, windowTitle: nil, frontmost: false)
+            sendSuccess(type: "windowState", id: command.id, data: .windowState(data))
+            return
+        }
+
+        let onScreen = windowInfo[kCGWindowIsOnscreen as String] as? Bool ?? false
+        let ownerPID = windowInfo[kCGWindowOwnerPID as String] as? Int32
+        let frontmost = ownerPID != nil && NSWorkspace.shared.frontmostApplication?.processIdentifier == ownerPID
+        let data = WindowStateData(
+            windowId: windowID,
+            state: onScreen ? "visible" : "hidden",
+            bounds: getCurrentWindowBounds(),
+            windowTitle: windowInfo[kCGWindowName as String] as? String,
+            frontmost: frontmost
+        )
+        sendSuccess(type: "windowState", id: command.id, data: .windowState(data))
+    }
+
     func findWindowID(matching rect: CGRect) -> CGWindowID? {
         // Get all on-screen windows
         guard let windowList = CGWindowListCopyWindowInfo([.optionOnScreenOnly, .excludeDesktopElements], kCGNullWindowID) as? [[String: Any]] else {
@@ -246,12 +361,18 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
     // MARK: - SCContentSharingPickerObserver
 
     func contentSharingPicker(_ picker: SCContentSharingPicker, didCancelFor stream: SCStream?) {
-        sendError(type: "pick", message: "User cancelled window selection")
+        if let request = pickRequest {
+            sendError(type: "pick", id: request.id, message: "User cancelled window selection")
+        }
+        pickRequest = nil
         pendingCommand = nil
     }
 
     func contentSharingPickerStartDidFailWithError(_ error: any Error) {
-        sendError(type: "pick", message: "Picker failed to start: \(error.localizedDescription)")
+        if let request = pickRequest {
+            sendError(type: "pick", id: request.id, message: "Picker failed to start: \(error.localizedDescription)")
+        }
+        pickRequest = nil
         pendingCommand = nil
     }
 
@@ -289,11 +410,15 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
             ownerPID: ownerPID
         )
 
-        sendSuccess(type: "pick", data: .windowSelected(windowData))
+        // A picker that was already cancelled still updates the filter, but nobody is waiting for a reply
+        guard let request = pickRequest else { return }
+        pickRequest = nil
+
+        sendSuccess(type: "pick", id: request.id, data: .windowSelected(windowData))
 
         if let pending = self.pendingCommand {
-            self.executeScan(pending)
             self.pendingCommand = nil
+            self.executeScan(pending)
         }
     }
 
@@ -301,11 +426,13 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
 
     func executeScan(_ command: Command) {
         guard let filter = currentFilter else {
-            sendError(type: "scan", message: "No window selected")
+            sendError(type: "scan", id: command.id, message: "No window selected")
             return
         }
 
-        Task {
+        scanRequestId = command.id
+        scanAction = "scan"
+        scanTask = Task {
             do {
                 let config = SCStreamConfiguration()
 
@@ -319,12 +446,10 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
                 config.showsCursor = false
 
                 let image = try await SCScreenshotManager.captureImage(contentFilter: filter, configuration: config)
+                try Task.checkCancellation()
 
                 if let savePath = command.saveTo {
-                    let bitmapRep = NSBitmapImageRep(cgImage: image)
-                    if let pngData = bitmapRep.representation(using: .png, properties: [:]) {
-                        try? pngData.write(to: URL(fileURLWithPath: savePath))
-                    }
+                    writePNG(image, to: savePath)
                 }
 
                 let languages = command.languages ?? ["ja", "en"]
@@ -337,37 +462,136 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
                         height: rect.size.height
                     )
                 }
+                let ocrData = try await self.recognize(image, command: command, languages: languages, bounds: currentBounds)
+                await MainActor.run {
+                    self.finishScan(command) {
+                        sendSuccess(type: "scan", id: command.id, data: .ocr(ocrData))
+                    }
+                }
+            } catch {
+                await MainActor.run {
+                    self.finishScan(command) {
+                        sendError(type: "scan", id: command.id, message: "Failed: \(error.localizedDescription)")
+                    }
+                }
+            }
+        }
+    }
+
+    // Recognizes an image file instead of a window; the reply has no window bounds
+    func executeImageScan(_ command: Command) {
+        guard let path = command.path else {
+            sendError(type: "scanImage", id: command.id, message: "No image path given")
+            return
+        }
+        guard let source = CGImageSourceCreateWithURL(URL(fileURLWithPath: path) as CFURL, nil),
+              let image = CGImageSourceCreateImageAtIndex(source, 0, nil) else {
+            sendError(type: "scanImage", id: command.id, message: "Cannot read image: \(path)")
+            return
+        }
+
+        scanRequestId = command.id
+        scanAction = "scanImage"
+        scanTask = Task {
+            do {
+                let languages = command.languages ?? ["ja", "en"]
+                let ocrData = try await self.recognize(image, command: command, languages: languages, bounds: nil)
                 await MainActor.run {
-                    self.performOCR(cgImage: image, languages: languages, bounds: currentBounds)
+                    self.finishScan(command) {
+                        sendSuccess(type: "scanImage", id: command.id, data: .ocr(ocrData))
+                    }
                 }
             } catch {
                 await MainActor.run {
-                    sendError(type: "scan", message: "Failed: \(error.localizedDescription)")
+                    self.finishScan(command) {
+                        sendError(type: "scanImage", id: command.id, message: "Failed: \(error.localizedDescription)")
+                    }
                 }
             }
         }
     }
 
+    // Sends the final reply for a scan unless it was cancelled (and therefore already answered)
+    func finishScan(_ command: Command, send: () -> Void) {
+        guard scanTask != nil, scanRequestId == command.id else { return }
+        scanTask = nil
+        scanRequestId = nil
+        send()
+    }
+
     // MARK: - OCR
 
-    func performOCR(cgImage: CGImage, languages: [String], bounds: WindowBounds) {
+    // Preprocesses the capture and recognizes it. Boxes are normalized, so they fit the original
+    // capture, whose size is reported.
+    func recognize(_ image: CGImage, command: Command, languages: [String], bounds: WindowBounds?) async throws -> OCRData {
+        let processed = command.preprocess.map { preprocessImage(image, $0) } ?? image
+        if let previewPath = command.previewTo {
+            writePNG(processed, to: previewPath)
+        }
+        let ocrData = try await performOCR(cgImage: processed, languages: languages, region: command.region, bounds: bounds)
+        return OCRData(imageWidth: image.width, imageHeight: image.height, observations: ocrData.observations, bounds: bounds)
+    }
+
+    // Grayscale, outline removal, upscaling, threshold and inversion, in the app's order
+    func preprocessImage(_ image: CGImage, _ options: PreprocessOptions) -> CGImage {
+        let original = CGRect(x: 0, y: 0, width: image.width, height: image.height)
+        var output = CIImage(cgImage: image)
+        if options.grayscale || options.threshold > 0 {
+            output = output.applyingFilter("CIColorControls", parameters: [kCIInputSaturationKey: 0])
+        }
+        if options.outlineWidth > 0 {
+            // Closing: grow the light areas over thin dark strokes, then shrink them back
+            let radius = options.outlineWidth / 2 + 0.5
+            output = output
+                .applyingFilter("CIMorphologyMaximum", parameters: [kCIInputRadiusKey: radius])
+                .applyingFilter("CIMorphologyMinimum", parameters: [kCIInputRadiusKey: radius])
+                .cropped(to: original)
+        }
+        if options.scale > 1 {
+            output = output.applyingFilter("CILanczosScaleTransform", parameters: [
+                kCIInputScaleKey: options.scale,
+                kCIInputAspectRatioKey: 1.0
+            ])
+        }
+        if options.threshold > 0 {
+            output = output.applyingFilter("CIColorThreshold", parameters: ["inputThreshold": options.threshold])
+        }
+        if options.invert {
+            output = output.applyingFilter("CIColorInvert")
+        }
+        return ciContext.createCGImage(output, from: output.extent.integral) ?? image
+    }
+
+    func performOCR(cgImage: CGImage, languages: [String], region: NormalizedRect?, bounds: WindowBounds?) async throws -> OCRData {
         let request = VNRecognizeTextRequest()
         request.recognitionLevel = .accurate
         request.recognitionLanguages = languages
         request.usesLanguageCorrection = true
 
+        // Vision reports observations relative to the region of interest, mapped back below
+        let roi = region.map { rect -> CGRect in
+            CGRect(x: rect.x, y: rect.y, width: rect.width, height: rect.height)
+                .intersection(CGRect(x: 0, y: 0, width: 1, height: 1))
+        } ?? CGRect(x: 0, y: 0, width: 1, height: 1)
+        if roi.isNull || roi.width <= 0 || roi.height <= 0 {
+            return OCRData(imageWidth: cgImage.width, imageHeight: cgImage.height, observations: [], bounds: bounds)
+        }
+        request.regionOfInterest = roi
+        func toImage(_ point: CGPoint) -> NormalizedPoint {
+            NormalizedPoint(x: roi.origin.x + point.x * roi.width, y: roi.origin.y + point.y * roi.height)
+        }
+
         let handler = VNImageRequestHandler(cgImage: cgImage, options: [:])
 
-        do {
+        try await withTaskCancellationHandler {
             try handler.perform([request])
-        } catch {
-            sendError(type: "scan", message: "OCR failed: \(error.localizedDescription)")
-            return
+        } onCancel: {
+            request.cancel()
         }
+        try Task.checkCancellation()
 
         guard let results = request.results else {
-            sendSuccess(type: "scan", data: .ocr(OCRData(imageWidth: cgImage.width, imageHeight: cgImage.height, observations: [], bounds: bounds)))
-            return
+            return OCRData(imageWidth: cgImage.width, imageHeight: cgImage.height, observations: [], bounds: bounds)
         }
 
         var observations: [TextObservation] = []
@@ -378,25 +602,26 @@ class AppDelegate: NSObject, NSApplicationDelegate, SCContentSharingPickerObserv
             }
 
             let boundingBox = observation.boundingBox
+            let origin = toImage(boundingBox.origin)
 
             let textObs = TextObservation(
                 text: topCandidate.string,
                 confidence: topCandidate.confidence,
                 boundingBox: NormalizedRect(
-                    x: boundingBox.origin.x,
-                    y: boundingBox.origin.y,
-                    width: boundingBox.width,
-                    height: boundingBox.height
+                    x: origin.x,
+                    y: origin.y,
+                    width: boundingBox.width * roi.width,
+                    height: boundingBox.height * roi.height
                 ),
-                topLeft: NormalizedPoint(x: observation.topLeft.x, y: observation.topLeft.y),
-                topRight: NormalizedPoint(x: observation.topRight.x, y: observation.topRight.y),
-                bottomRight: NormalizedPoint(x: observation.bottomRight.x, y: observation.bottomRight.y),
-                bottomLeft: NormalizedPoint(x: observation.bottomLeft.x, y: observation.bottomLeft.y)
+                topLeft: toImage(observation.topLeft),
+                topRight: toImage(observation.topRight),
+                bottomRight: toImage(observation.bottomRight),
+                bottomLeft: toImage(observation.bottomLeft)
             )
             observations.append(textObs)
         }
 
-        sendSuccess(type: "scan", data: .ocr(OCRData(imageWidth: cgImage.width, imageHeight: cgImage.height, observations: observations, bounds: bounds)))
+        return OCRData(imageWidth: cgImage.width, imageHeight: cgImage.height, observations: observations, bounds: bounds)
     }
 }
 